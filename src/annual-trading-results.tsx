@@ -1,301 +1,78 @@
-import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
 import { Moon, Sun, RefreshCw } from 'lucide-react';
-import { SimulationSettings, SimulationStats, DateInfo, MonthlyStats, WeeklyStats, EquityPoint } from './types';
+import { SimulationSettings, SimulationStats, MonteCarloResult, ChallengeBatchResult, RegimeComparison, MarketRegime } from './types';
+import MonteCarloResults from './monte-carlo-results';
+import PropChallengeResults from './prop-challenge-results';
+import TradeOutcomeResults from './trade-outcome-results';
+import MarketRegimeResults from './market-regime-results';
+import PerformanceMetricsResults from './performance-metrics-results';
+import CashFlowResults from './cash-flow-results';
+import DrawdownResults from './drawdown-results';
+import StreakResults from './streak-results';
+import CalendarResults from './calendar-results';
+import PerformanceBreakdown from './performance-breakdown';
+import { MARKET_REGIMES } from './market-regimes';
+import TradeLog, { TradeLogFilter, EMPTY_TRADE_LOG_FILTER } from './trade-log';
+import ResultsExportMenu from './results-export-menu';
+import { isTaxEnabled } from './taxes';
+import { hasRiskRules } from './risk-rules';
 
 interface AnnualTradingResultsProps {
   params: SimulationSettings;
+  stats: SimulationStats;
+  monteCarlo?: MonteCarloResult | null;
+  challengeBatch?: ChallengeBatchResult | null;
+  regimeComparison?: RegimeComparison | null;
+  onRerun?: (keepSeed: boolean) => void;
+  // Copy this run's seed into the settings form
+  onUseSeed?: (seed: number) => void;
+  running?: boolean;
+  source?: string; // File name when showing an imported trade history instead of a simulation
 }
 
-const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) => {
-  const [stats, setStats] = useState<SimulationStats>({
-    winRate: 0,
-    avgRPerDay: 0,
-    avgRPerWeek: 0,
-    avgTradesPerDay: 0,
-    initialEquity: 0,
-    finalEquity: 0,
-    totalProfit: 0,
-    maxWinStreak: 0,
-    maxLossStreak: 0,
-    maxDrawdown: 0,
-    maxDrawdownPeriod: '',
-    maxWinStreakPeriod: '',
-    maxLossStreakPeriod: '',
-    equityCurve: [],
-    monthlyBreakdown: [],
-    weeklyBreakdown: [],
-    totalTrades: 0,
-    riskRewardRatio: 0
-  });
-  
+const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params, stats, monteCarlo, challengeBatch, regimeComparison, onRerun, onUseSeed, running, source }) => {
   const [darkMode, setDarkMode] = useState(params?.darkMode || false);
-  // Add simulation key to trigger re-runs
-  const [simulationKey, setSimulationKey] = useState<number>(1);
+  // Whether a re-run reuses the current seed or rolls a new one
+  const [keepSeed, setKeepSeed] = useState<boolean>(false);
+  const [tradeFilter, setTradeFilter] = useState<TradeLogFilter>(EMPTY_TRADE_LOG_FILTER);
+  const tradeLogRef = useRef<HTMLDivElement>(null);
+  
+  // A new run starts with an unfiltered trade log
+  useEffect(() => {
+    setTradeFilter(EMPTY_TRADE_LOG_FILTER);
+  }, [stats]);
   
   // Function to re-run the simulation
   const handleRerun = () => {
-    setSimulationKey(prevKey => prevKey + 1);
+    onRerun?.(keepSeed);
   };
 
-  useEffect(() => {
-    if (!params) return;
-    
-    // Set parameters for simulation
-    const targetWinRate = params.winRate / 100; // Convert percentage to decimal
-    const tradesPerDay = params.tradesPerDay;
-    const riskRewardRatio = params.riskRewardRatio;
-    const riskPerTrade = params.riskPerTrade;
-    const rewardPerTrade = riskPerTrade * riskRewardRatio;
-    const initialEquity = params.startingEquity;
-    
-    // Parse dates
-    const startDate = new Date(params.startDate);
-    const endDate = new Date(params.endDate);
-    
-    // Calculate approximate trading days (excluding weekends)
-    const dayDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const weekendDays = Math.floor(dayDiff / 7) * 2;
-    const approxTradingDays = Math.max(1, dayDiff - weekendDays);
-    
-    let runningEquity = initialEquity;
-    const equityCurve: EquityPoint[] = [];
-    const monthlyStats: Record<string, MonthlyStats> = {};
-    const weeklyStats: Record<string, WeeklyStats> = {};
-    
-    // Generate trading dates for the simulation period
-    const generateDates = (startDate: Date, endDate: Date): DateInfo[] => {
-      const dates: DateInfo[] = [];
-      const currentDate = new Date(startDate);
-      
-      while (currentDate <= endDate) {
-        // Skip weekends
-        if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-          const month = currentDate.toLocaleString('default', { month: 'short' });
-          const day = currentDate.getDate();
-          const year = currentDate.getFullYear();
-          
-          // Get week number
-          const firstDayOfYear = new Date(currentDate.getFullYear(), 0, 1);
-          const pastDaysOfYear = (currentDate.getTime() - firstDayOfYear.getTime()) / 86400000;
-          const weekNumber = Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
-          
-          dates.push({
-            fullDate: `${month} ${day} ${year}`,
-            month: `${month} ${year}`,
-            week: `Week ${weekNumber}, ${year}`,
-            dateObj: new Date(currentDate)
-          });
-        }
-        
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-      
-      return dates;
-    };
-    
-    const dates = generateDates(startDate, endDate);
-    
-    // Simulate trading with the target win rate
-    let totalWins = 0;
-    let totalLosses = 0;
-    let totalTrades = 0;
-    
-    // Tracking streaks
-    let currentWinStreak = 0;
-    let currentLossStreak = 0;
-    let maxWinStreak = 0;
-    let maxLossStreak = 0;
-    let winStreakStart: string | null = null;
-    let lossStreakStart: string | null = null;
-    let maxWinStreakStart: string | null = null;
-    let maxWinStreakEnd: string | null = null;
-    let maxLossStreakStart: string | null = null;
-    let maxLossStreakEnd: string | null = null;
-    
-    // Tracking drawdown
-    let peakEquity = initialEquity;
-    let currentDrawdown = 0;
-    let maxDrawdown = 0;
-    let drawdownStart: string | null = null;
-    let drawdownEnd: string | null = null;
-    let maxDrawdownStart: string | null = null;
-    let maxDrawdownEnd: string | null = null;
-    
-    // Initialize monthly and weekly statistics tracking
-    dates.forEach(date => {
-      const monthKey = date.month;
-      if (!monthlyStats[monthKey]) {
-        monthlyStats[monthKey] = {
-          month: monthKey,
-          wins: 0,
-          losses: 0,
-          profitLoss: 0,
-          trades: 0
-        };
-      }
-      
-      const weekKey = date.week;
-      if (!weeklyStats[weekKey]) {
-        weeklyStats[weekKey] = {
-          week: weekKey,
-          wins: 0,
-          losses: 0,
-          profitLoss: 0,
-          trades: 0
-        };
-      }
-    });
-    
-    // Add initial point to equity curve
-    if (dates.length > 0) {
-      equityCurve.push({
-        date: dates[0]?.fullDate || 'Start',
-        equity: initialEquity,
-        month: dates[0]?.month || 'Start',
-        week: dates[0]?.week || 'Week 1'
-      });
-    }
-    
-    for (let i = 0; i < dates.length; i++) {
-      const date = dates[i];
-      let dayEquity = runningEquity;
-      const monthKey = date.month;
-      const weekKey = date.week;
-      
-      // Run trades for this day
-      for (let j = 0; j < tradesPerDay; j++) {
-        // Determine if trade is a win based on target win rate
-        const isWin = Math.random() < targetWinRate;
-        
-        if (isWin) {
-          dayEquity += rewardPerTrade;
-          totalWins++;
-          monthlyStats[monthKey].wins++;
-          weeklyStats[weekKey].wins++;
-          monthlyStats[monthKey].profitLoss += rewardPerTrade;
-          weeklyStats[weekKey].profitLoss += rewardPerTrade;
-          
-          // Update win streak
-          if (currentWinStreak === 0) {
-            winStreakStart = date.fullDate;
-          }
-          currentWinStreak++;
-          currentLossStreak = 0;
-          
-          if (currentWinStreak > maxWinStreak) {
-            maxWinStreak = currentWinStreak;
-            maxWinStreakStart = winStreakStart;
-            maxWinStreakEnd = date.fullDate;
-          }
-        } else {
-          dayEquity -= riskPerTrade;
-          totalLosses++;
-          monthlyStats[monthKey].losses++;
-          weeklyStats[weekKey].losses++;
-          monthlyStats[monthKey].profitLoss -= riskPerTrade;
-          weeklyStats[weekKey].profitLoss -= riskPerTrade;
-          
-          // Update loss streak
-          if (currentLossStreak === 0) {
-            lossStreakStart = date.fullDate;
-          }
-          currentLossStreak++;
-          currentWinStreak = 0;
-          
-          if (currentLossStreak > maxLossStreak) {
-            maxLossStreak = currentLossStreak;
-            maxLossStreakStart = lossStreakStart;
-            maxLossStreakEnd = date.fullDate;
-          }
-        }
-        
-        totalTrades++;
-        monthlyStats[monthKey].trades++;
-        weeklyStats[weekKey].trades++;
-      }
-      
-      // Update peak equity and calculate drawdown
-      if (dayEquity > peakEquity) {
-        peakEquity = dayEquity;
-        currentDrawdown = 0;
-        drawdownStart = null;
-      } else {
-        const drawdownAmount = peakEquity - dayEquity;
-        const drawdownPercentage = (drawdownAmount / peakEquity) * 100;
-        
-        if (drawdownPercentage > currentDrawdown) {
-          currentDrawdown = drawdownPercentage;
-          if (!drawdownStart) {
-            drawdownStart = date.fullDate;
-          }
-          drawdownEnd = date.fullDate;
-          
-          if (currentDrawdown > maxDrawdown) {
-            maxDrawdown = currentDrawdown;
-            maxDrawdownStart = drawdownStart;
-            maxDrawdownEnd = drawdownEnd;
-          }
-        }
+  // Risk only changes over time when sizing depends on equity
+  const showRiskCurve = (params?.positionSizingModel || 'fixed-dollar') !== 'fixed-dollar';
+  // With taxes on, plot pre-tax and after-tax equity together
+  const taxEnabled = isTaxEnabled(params);
+  const showLegend = showRiskCurve || taxEnabled;
+  
+  // Consecutive days in the same market regime, shaded behind the equity curve
+  const regimeSegments = useMemo(() => {
+    const segments: { regime: MarketRegime; start: string; end: string }[] = [];
+    stats.equityCurve.forEach(point => {
+      if (!point.regime) return;
+      const last = segments[segments.length - 1];
+      if (last) last.end = point.date;
+      if (!last || last.regime !== point.regime) {
+        segments.push({ regime: point.regime, start: point.date, end: point.date });
       }
-      
-      equityCurve.push({
-        date: date.fullDate,
-        equity: dayEquity,
-        month: date.month,
-        week: date.week
-      });
-      
-      runningEquity = dayEquity;
-    }
-    
-    // Calculate overall statistics
-    const actualWinRate = totalWins / (totalWins + totalLosses) * 100 || params.winRate;
-    const totalProfit = runningEquity - initialEquity;
-    const avgRPerDay = totalProfit / (riskPerTrade * dates.length) || 0;
-    const avgRPerWeek = avgRPerDay * 5; // Assuming 5 trading days per week
-    const actualAvgTradesPerDay = totalTrades / dates.length || params.tradesPerDay;
-    
-    // Convert monthly stats to array and calculate monthly win rates
-    const monthlyBreakdown = Object.values(monthlyStats).map(month => {
-      const monthWinRate = month.wins / (month.wins + month.losses) * 100 || 0;
-      return {
-        ...month,
-        winRate: monthWinRate.toFixed(2)
-      };
-    });
-    
-    // Convert weekly stats to array and calculate weekly win rates
-    const weeklyBreakdown = Object.values(weeklyStats).map(week => {
-      const weekWinRate = week.wins / (week.wins + week.losses) * 100 || 0;
-      return {
-        ...week,
-        winRate: weekWinRate.toFixed(2)
-      };
-    });
-    
-    setStats({
-      winRate: actualWinRate,
-      avgRPerDay,
-      avgRPerWeek,
-      avgTradesPerDay: actualAvgTradesPerDay,
-      initialEquity,
-      totalProfit,
-      finalEquity: runningEquity,
-      maxWinStreak,
-      maxLossStreak,
-      maxDrawdown,
-      maxDrawdownPeriod: `${maxDrawdownStart || 'N/A'} to ${maxDrawdownEnd || 'N/A'}`,
-      maxWinStreakPeriod: `${maxWinStreakStart || 'N/A'} to ${maxWinStreakEnd || 'N/A'}`,
-      maxLossStreakPeriod: `${maxLossStreakStart || 'N/A'} to ${maxLossStreakEnd || 'N/A'}`,
-      equityCurve,
-      monthlyBreakdown,
-      weeklyBreakdown,
-      totalTrades,
-      riskRewardRatio
     });
-  }, [params, simulationKey]); // Added simulationKey to dependencies
+    return segments;
+  }, [stats.equityCurve]);
+
+  // Clicking a breakdown row jumps to the trade log filtered to that period
+  const showTradesFor = (period: Pick<TradeLogFilter, 'month' | 'week'>) => {
+    setTradeFilter({ ...EMPTY_TRADE_LOG_FILTER, ...period });
+    tradeLogRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
@@ -327,21 +104,65 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
     : "bg-gray-50";
 
   const buttonClass = darkMode
-    ? "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center"
-    : "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center";
+    ? "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+    : "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed";
 
   return (
     <div className={containerClass}>
       {/* Theme toggle button and Re-run button */}
       <div className="flex justify-between mb-4">
-        <button
-          onClick={handleRerun}
-          className={buttonClass}
-          title="Re-run simulation with the same parameters"
-        >
-          <RefreshCw size={18} className="mr-2" />
-          Re-run Simulation
-        </button>
+        <div className="flex items-center gap-4">
+          {source ? (
+            <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`} title="Imported trade history">
+              Imported from {source}
+            </span>
+          ) : (
+            <>
+              <button
+                onClick={handleRerun}
+                className={buttonClass}
+                disabled={!onRerun || running}
+                title={keepSeed ? "Re-run simulation with the same seed" : "Re-run simulation with a new seed"}
+              >
+                <RefreshCw size={18} className="mr-2" />
+                Re-run Simulation
+              </button>
+              {onRerun && (
+                <label className={`inline-flex items-center text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={keepSeed}
+                    onChange={(e) => setKeepSeed(e.target.checked)}
+                  />
+                  Keep seed
+                </label>
+              )}
+              <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`} title="Seed used for this run">
+                Seed: {params?.seed ?? 'Random'}
+              </span>
+              {onUseSeed && params?.seed !== undefined && (
+                <button
+                  onClick={() => onUseSeed(params.seed as number)}
+                  className={`text-sm underline ${darkMode ? 'text-blue-300 hover:text-blue-200' : 'text-blue-600 hover:text-blue-800'}`}
+                  title="Put this seed in the settings form so the run can be saved or reproduced"
+                >
+                  Use seed in settings
+                </button>
+              )}
+            </>
+          )}
+          <ResultsExportMenu
+            params={params}
+            result={{
+              stats,
+              monteCarlo: monteCarlo || null,
+              challengeBatch: challengeBatch || null,
+              regimeComparison: regimeComparison || null
+            }}
+            darkMode={darkMode}
+          />
+        </div>
         
         <button 
           onClick={toggleDarkMode} 
@@ -352,7 +173,9 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
       </div>
       
       <div className="mb-6">
-        <h2 className="text-xl font-bold mb-4">Trading Simulation Results ({params?.winRate || 0}% Win Rate)</h2>
+        <h2 className="text-xl font-bold mb-4">
+          {source ? 'Imported Trade History' : 'Trading Simulation Results'} ({params?.winRate || 0}% Win Rate)
+        </h2>
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
           <div className={cardClass}>
             <h3 className={labelClass}>Initial Equity</h3>
@@ -361,7 +184,7 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
           <div className={cardClass}>
             <h3 className={labelClass}>Final Equity</h3>
             <p className={`text-2xl font-bold ${stats.finalEquity >= stats.initialEquity ? 'text-green-500' : 'text-red-500'}`}>
-              ${stats.finalEquity?.toLocaleString()}
+              ${Math.round(stats.finalEquity).toLocaleString()}
             </p>
           </div>
           <div className={cardClass}>
@@ -384,15 +207,101 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
             <h3 className={labelClass}>Daily Trades</h3>
             <p className="text-2xl font-bold">{params?.tradesPerDay || 0}</p>
           </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Avg Risk Per Trade</h3>
+            <p className="text-2xl font-bold">${Math.round(stats.averageRiskPerTrade).toLocaleString()}</p>
+          </div>
           <div className={cardClass}>
             <h3 className={labelClass}>Total Profit</h3>
             <p className={`text-2xl font-bold ${stats.totalProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-              ${stats.totalProfit?.toLocaleString()}
+              ${Math.round(stats.totalProfit).toLocaleString()}
+            </p>
+          </div>
+        </div>
+      </div>
+      
+      {params.challengeMode && (
+        <PropChallengeResults params={params} result={stats.challenge} batch={challengeBatch} darkMode={darkMode} />
+      )}
+      
+      {/* Risk rules */}
+      {hasRiskRules(params) && (
+        <div className="mb-6">
+          <h2 className="text-xl font-bold mb-4">Risk Rules</h2>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            <div className={cardClass}>
+              <h3 className={labelClass}>Daily Loss Limit Hits</h3>
+              <p className="text-2xl font-bold">{stats.riskRules.dailyLossLimitHits}</p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Consecutive Loss Stops</h3>
+              <p className="text-2xl font-bold">{stats.riskRules.consecutiveLossStops}</p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Profit Target Hits</h3>
+              <p className="text-2xl font-bold">{stats.riskRules.profitTargetHits}</p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Drawdown {params.drawdownAction === 'pause' ? 'Pauses' : 'Halts'}</h3>
+              <p className={`text-2xl font-bold ${stats.riskRules.drawdownStops > 0 ? 'text-red-500' : ''}`}>
+                {stats.riskRules.drawdownStops}
+              </p>
+              {stats.riskRules.haltedOn && (
+                <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Halted on {stats.riskRules.haltedOn}
+                </p>
+              )}
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Trades Skipped</h3>
+              <p className="text-2xl font-bold">{stats.riskRules.tradesSkipped.toLocaleString()}</p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Days Sat Out</h3>
+              <p className="text-2xl font-bold">{stats.riskRules.daysSkipped.toLocaleString()}</p>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      <TradeOutcomeResults params={params} stats={stats} darkMode={darkMode} />
+      
+      {/* Trading costs */}
+      <div className="mb-6">
+        <h2 className="text-xl font-bold mb-4">Trading Costs</h2>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          <div className={cardClass}>
+            <h3 className={labelClass}>Gross Profit</h3>
+            <p className={`text-2xl font-bold ${stats.grossProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              ${Math.round(stats.grossProfit).toLocaleString()}
+            </p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Net Profit</h3>
+            <p className={`text-2xl font-bold ${stats.totalProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              ${Math.round(stats.totalProfit).toLocaleString()}
+            </p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Total Fees</h3>
+            <p className="text-2xl font-bold text-red-500">${Math.round(stats.totalFees).toLocaleString()}</p>
+            <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              + ${Math.round(stats.totalSlippage).toLocaleString()} slippage
+            </p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Fees % of Gross Profit</h3>
+            <p className="text-2xl font-bold">
+              {stats.grossProfit > 0 ? `${stats.feesPercentOfGross.toFixed(2)}%` : 'N/A'}
             </p>
           </div>
         </div>
       </div>
       
+      <CashFlowResults stats={stats} darkMode={darkMode} />
+      
+      <PerformanceMetricsResults metrics={stats.performance} darkMode={darkMode} />
+      
       {/* Rest of the component remains the same */}
       {/* Streak and drawdown metrics */}
       <div className="mb-6">
@@ -422,8 +331,20 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
         </div>
       </div>
       
+      <StreakResults params={params} stats={stats} darkMode={darkMode} />
+      
       <div className={`${cardClass} mb-6`}>
-        <h3 className="text-lg font-bold mb-4">Equity Curve ({params?.winRate || 0}% Win Rate)</h3>
+        <h3 className={`text-lg font-bold ${regimeSegments.length > 0 ? 'mb-1' : 'mb-4'}`}>Equity Curve ({params?.winRate || 0}% Win Rate)</h3>
+        {regimeSegments.length > 0 && (
+          <div className={`flex gap-4 mb-3 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {MARKET_REGIMES.map(regime => (
+              <span key={regime.value} className="inline-flex items-center">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: regime.color, opacity: 0.4 }} />
+                {regime.label}
+              </span>
+            ))}
+          </div>
+        )}
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart
@@ -438,99 +359,177 @@ const AnnualTradingResults: React.FC<AnnualTradingResultsProps> = ({ params }) =
                 stroke={darkMode ? "#4B5563" : "#9CA3AF"}
               />
               <YAxis 
+                yAxisId="equity"
                 domain={['dataMin - 5000', 'dataMax + 5000']} 
                 tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
                 stroke={darkMode ? "#4B5563" : "#9CA3AF"}
               />
+              {showRiskCurve && (
+                <YAxis 
+                  yAxisId="risk"
+                  orientation="right"
+                  tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+                  stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+                />
+              )}
               <Tooltip 
-                formatter={(value) => ['$' + value.toLocaleString(), 'Account Balance']}
+                formatter={(value: number, name: string) => ['$' + Math.round(value).toLocaleString(), name]}
                 contentStyle={{ 
                   backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
                   borderColor: darkMode ? "#4B5563" : "#E5E7EB",
                   color: darkMode ? "#F3F4F6" : "#111827"
                 }}
               />
+              {showLegend && <Legend />}
+              {regimeSegments.map(segment => (
+                <ReferenceArea
+                  key={segment.start}
+                  yAxisId="equity"
+                  x1={segment.start}
+                  x2={segment.end}
+                  fill={MARKET_REGIMES.find(regime => regime.value === segment.regime)?.color}
+                  fillOpacity={0.12}
+                />
+              ))}
+              {stats.challenge && (
+                <ReferenceLine
+                  yAxisId="equity"
+                  x={stats.challenge.endDate}
+                  stroke={stats.challenge.passed ? "#10B981" : "#EF4444"}
+                  strokeDasharray="4 4"
+                  label={{ value: stats.challenge.passed ? 'Passed' : 'Failed', position: 'top', fill: stats.challenge.passed ? "#10B981" : "#EF4444", fontSize: 12 }}
+                />
+              )}
+              {params.challengeMode && (
+                <ReferenceLine
+                  yAxisId="equity"
+                  y={stats.initialEquity + (params.challengeProfitTarget || 0)}
+                  stroke="#10B981"
+                  strokeDasharray="2 2"
+                />
+              )}
+              {params.challengeMode && (params.challengeMaxLoss || 0) > 0 && params.challengeMaxLossType !== 'trailing' && (
+                <ReferenceLine
+                  yAxisId="equity"
+                  y={stats.initialEquity - (params.challengeMaxLoss || 0)}
+                  stroke="#EF4444"
+                  strokeDasharray="2 2"
+                />
+              )}
               <Line 
+                yAxisId="equity"
                 type="monotone" 
-                dataKey="equity" 
+                dataKey={taxEnabled ? "preTaxEquity" : "equity"} 
+                name={taxEnabled ? "Pre-Tax Equity" : "Account Balance"}
                 stroke="#10B981" 
                 strokeWidth={2}
                 dot={false}
                 activeDot={{ r: 6 }}
               />
+              {taxEnabled && (
+                <Line 
+                  yAxisId="equity"
+                  type="monotone" 
+                  dataKey="afterTaxEquity" 
+                  name="After-Tax Equity"
+                  stroke="#6366F1" 
+                  strokeWidth={2}
+                  dot={false}
+                />
+              )}
+              {showRiskCurve && (
+                <Line 
+                  yAxisId="risk"
+                  type="stepAfter" 
+                  dataKey="riskPerTrade" 
+                  name="Risk per Trade"
+                  stroke="#F59E0B" 
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
       </div>
       
-      {/* Monthly breakdown */}
-      <div className={`${cardClass} mb-6`}>
-        <h3 className="text-lg font-bold mb-4">Monthly Performance Breakdown</h3>
-        <div className="overflow-x-auto">
-          <table className="min-w-full">
-            <thead>
-              <tr>
-                <th className={tableHeaderClass}>Month</th>
-                <th className={tableHeaderClass}>Win Rate</th>
-                <th className={tableHeaderClass}>Profit/Loss</th>
-                <th className={tableHeaderClass}>Trades</th>
-              </tr>
-            </thead>
-            <tbody>
-              {stats.monthlyBreakdown.map((month, index) => (
-                <tr key={month.month} className={index % 2 === 1 ? tableRowAltClass : ''}>
-                  <td className={tableCellClass}>{month.month}</td>
-                  <td className={tableCellClass}>
-                    <span className={parseFloat(month.winRate || '0') >= 50 ? 'text-green-500' : 'text-red-500'}>
-                      {month.winRate}%
-                    </span>
-                  </td>
-                  <td className={tableCellClass}>
-                    <span className={month.profitLoss >= 0 ? 'text-green-500' : 'text-red-500'}>
-                      ${month.profitLoss.toLocaleString()}
-                    </span>
-                  </td>
-                  <td className={tableCellClass}>{month.trades}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      </div>
+      <DrawdownResults stats={stats} darkMode={darkMode} />
       
-      {/* Weekly breakdown */}
-      <div className={`${cardClass} mb-6`}>
-        <h3 className="text-lg font-bold mb-4">Weekly Performance Breakdown</h3>
-        <div className="overflow-x-auto">
-          <table className="min-w-full">
-            <thead>
-              <tr>
-                <th className={tableHeaderClass}>Week</th>
-                <th className={tableHeaderClass}>Win Rate</th>
-                <th className={tableHeaderClass}>Profit/Loss</th>
-                <th className={tableHeaderClass}>Trades</th>
-              </tr>
-            </thead>
-            <tbody>
-              {stats.weeklyBreakdown.map((week, index) => (
-                <tr key={week.week} className={index % 2 === 1 ? tableRowAltClass : ''}>
-                  <td className={tableCellClass}>{week.week}</td>
-                  <td className={tableCellClass}>
-                    <span className={parseFloat(week.winRate || '0') >= 50 ? 'text-green-500' : 'text-red-500'}>
-                      {week.winRate}%
-                    </span>
-                  </td>
-                  <td className={tableCellClass}>
-                    <span className={week.profitLoss >= 0 ? 'text-green-500' : 'text-red-500'}>
-                      ${week.profitLoss.toLocaleString()}
-                    </span>
-                  </td>
-                  <td className={tableCellClass}>{week.trades}</td>
+      {stats.regimes.length > 0 && (
+        <MarketRegimeResults stats={stats} comparison={regimeComparison} darkMode={darkMode} />
+      )}
+      
+      {/* Taxes by year */}
+      {taxEnabled && (
+        <div className={`${cardClass} mb-6`}>
+          <h3 className="text-lg font-bold mb-4">Taxes ({params.taxRate}%, {params.taxSettlement === 'quarterly' ? 'Quarterly Estimates' : 'Year-End'})</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <h3 className={labelClass}>Total Tax Paid</h3>
+              <p className="text-2xl font-bold text-red-500">${Math.round(stats.totalTaxPaid).toLocaleString()}</p>
+            </div>
+            <div>
+              <h3 className={labelClass}>After-Tax Profit</h3>
+              <p className={`text-2xl font-bold ${stats.afterTaxProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                ${Math.round(stats.afterTaxProfit).toLocaleString()}
+              </p>
+            </div>
+            <div>
+              <h3 className={labelClass}>Paid From</h3>
+              <p className="text-2xl font-bold">{params.payTaxesFromAccount ? 'Trading Account' : 'Outside Account'}</p>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={tableHeaderClass}>Year</th>
+                  <th className={tableHeaderClass}>Net Trading Gain</th>
+                  <th className={tableHeaderClass}>Loss Carry-Forward Used</th>
+                  <th className={tableHeaderClass}>Taxable Gain</th>
+                  <th className={tableHeaderClass}>Tax Paid</th>
+                  <th className={tableHeaderClass}>Carry-Forward Remaining</th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {stats.taxByYear.map((year, index) => (
+                  <tr key={year.year} className={index % 2 === 1 ? tableRowAltClass : ''}>
+                    <td className={tableCellClass}>{year.year}</td>
+                    <td className={tableCellClass}>
+                      <span className={year.netGain >= 0 ? 'text-green-500' : 'text-red-500'}>
+                        ${Math.round(year.netGain).toLocaleString()}
+                      </span>
+                    </td>
+                    <td className={tableCellClass}>${Math.round(year.carryForwardUsed).toLocaleString()}</td>
+                    <td className={tableCellClass}>${Math.round(year.taxableGain).toLocaleString()}</td>
+                    <td className={tableCellClass}>${Math.round(year.taxPaid).toLocaleString()}</td>
+                    <td className={tableCellClass}>${Math.round(year.carryForwardRemaining).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
+      )}
+      
+      {monteCarlo && <MonteCarloResults result={monteCarlo} darkMode={darkMode} />}
+      
+      <CalendarResults dailyBreakdown={stats.dailyBreakdown} darkMode={darkMode} />
+      
+      {/* Weekly, monthly, quarterly or yearly breakdown */}
+      <PerformanceBreakdown stats={stats} darkMode={darkMode} onShowTrades={showTradesFor} />
+      
+      {/* Trade log */}
+      <div ref={tradeLogRef} className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-4">Trade Log</h3>
+        <TradeLog
+          trades={stats.trades}
+          months={stats.monthlyBreakdown.map(month => month.month)}
+          weeks={stats.weeklyBreakdown.map(week => week.week)}
+          filter={tradeFilter}
+          onFilterChange={setTradeFilter}
+          darkMode={darkMode}
+        />
       </div>
     </div>
   );
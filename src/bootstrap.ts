@@ -0,0 +1,108 @@
+import { SimulationSettings, OutcomeSource, BootstrapMode, RSampleSummary } from './types';
+import { RandomSource } from './random';
+import { TradeOutcome } from './trade-outcomes';
+
+export const OUTCOME_SOURCES: { value: OutcomeSource; label: string }[] = [
+  { value: 'parameters', label: 'Win Rate and Risk/Reward' },
+  { value: 'bootstrap', label: 'Historical R-Multiple Sample' }
+];
+
+export const BOOTSTRAP_MODES: { value: BootstrapMode; label: string }[] = [
+  { value: 'trade', label: 'Trade by Trade' },
+  { value: 'day', label: 'Whole Days' }
+];
+
+export const isBootstrapEnabled = (params: SimulationSettings): boolean => {
+  return params.outcomeSource === 'bootstrap';
+};
+
+// Parse one trading day per line, R-multiples separated by commas, semicolons or spaces ("1.5R" is fine).
+// Blank lines are skipped; returns null when any value is not a number or nothing was entered.
+export const parseRSample = (text: string): number[][] | null => {
+  const days: number[][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const values = line.split(/[,;\s]+/).filter(value => value !== '');
+    if (values.length === 0) continue;
+    const day = values.map(value => Number(value.replace(/r$/i, '')));
+    if (day.some(rMultiple => !Number.isFinite(rMultiple))) return null;
+    days.push(day);
+  }
+  return days.length > 0 ? days : null;
+};
+
+export const formatRSample = (sample?: number[][]): string => {
+  return (sample || []).map(day => day.join(', ')).join('\n');
+};
+
+export const validateRSample = (sample?: number[][]): string[] => {
+  const days = (sample || []).filter(day => day.length > 0);
+  if (days.length === 0) return ['bootstrapSample needs at least one trade'];
+  if (days.some(day => day.some(rMultiple => !Number.isFinite(rMultiple)))) return ['bootstrapSample must only contain numbers'];
+  return [];
+};
+
+// Win rate, expectancy and payoff ratio implied by a sample
+export const summarizeRSample = (sample?: number[][]): RSampleSummary => {
+  const days = (sample || []).filter(day => day.length > 0);
+  let trades = 0;
+  let wins = 0;
+  let losses = 0;
+  let totalR = 0;
+  let winR = 0;
+  let lossR = 0;
+
+  days.forEach(day => day.forEach(rMultiple => {
+    trades++;
+    totalR += rMultiple;
+    if (rMultiple > 0) {
+      wins++;
+      winR += rMultiple;
+    } else if (rMultiple < 0) {
+      losses++;
+      lossR -= rMultiple;
+    }
+  }));
+
+  const averageWinR = wins > 0 ? winR / wins : 0;
+  const averageLossR = losses > 0 ? lossR / losses : 0;
+  return {
+    trades,
+    days: days.length,
+    winRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+    expectancy: trades > 0 ? totalR / trades : 0,
+    payoffRatio: averageLossR > 0 ? averageWinR / averageLossR : 0,
+    averageWinR,
+    averageLossR,
+    tradesPerDay: days.length > 0 ? trades / days.length : 0
+  };
+};
+
+const toOutcome = (rMultiple: number): TradeOutcome => ({
+  result: rMultiple > 0 ? 'win' : rMultiple < 0 ? 'loss' : 'breakeven',
+  rMultiple,
+  outsized: false
+});
+
+// Resamples the historical R-multiples with replacement. Trade mode draws every trade independently and
+// keeps the configured trades per day; day mode replays a randomly drawn historical day in full, so a
+// bad day's losses stay together.
+export const createBootstrapSampler = (params: SimulationSettings, random: RandomSource) => {
+  const days = (params.bootstrapSample || []).filter(day => day.length > 0);
+  const trades = days.flat();
+  const dayMode = params.bootstrapMode === 'day';
+  let currentDay: number[] = [];
+
+  return {
+    // Number of trades to take today
+    startDay: (tradesPerDay: number): number => {
+      if (!dayMode) return tradesPerDay;
+      currentDay = days[Math.floor(random() * days.length)];
+      return currentDay.length;
+    },
+
+    drawOutcome: (tradeOfDay: number): TradeOutcome => {
+      if (dayMode) return toOutcome(currentDay[tradeOfDay]);
+      return toOutcome(trades[Math.floor(random() * trades.length)]);
+    }
+  };
+};
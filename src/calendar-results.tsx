@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react';
+import { DailyStats } from './types';
+import { HEATMAP_LEVELS, buildCalendarHeatmap, getHeatmapLevel, getHeatmapScale, summarizeDaysOfWeek } from './calendar-stats';
+
+interface CalendarResultsProps {
+  dailyBreakdown: DailyStats[];
+  darkMode: boolean;
+}
+
+// Shades from lightest to darkest, indexed by heatmap level - 1
+const PROFIT_SHADES = ['#BBF7D0', '#4ADE80', '#16A34A', '#166534'];
+const LOSS_SHADES = ['#FECACA', '#F87171', '#DC2626', '#991B1B'];
+
+const SHORT_DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatCurrency = (value: number): string => `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`;
+
+const describeDay = (day: DailyStats): string => {
+  return `${day.date}\n${day.trades} trades · ${day.wins} wins · ${day.losses} losses\nP&L: ${formatCurrency(day.profitLoss)}`;
+};
+
+const CalendarResults: React.FC<CalendarResultsProps> = ({ dailyBreakdown, darkMode }) => {
+  const years = useMemo(() => buildCalendarHeatmap(dailyBreakdown), [dailyBreakdown]);
+  const scale = useMemo(() => getHeatmapScale(dailyBreakdown), [dailyBreakdown]);
+  const daysOfWeek = useMemo(() => summarizeDaysOfWeek(dailyBreakdown), [dailyBreakdown]);
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left whitespace-nowrap"
+    : "py-2 px-4 border-b text-left whitespace-nowrap";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 whitespace-nowrap"
+    : "py-2 px-4 border-b whitespace-nowrap";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const flatColor = darkMode ? "#374151" : "#E5E7EB";
+  const closedColor = darkMode ? "#1F2937" : "#F9FAFB";
+
+  if (dailyBreakdown.length === 0) return null;
+
+  const cellColor = (day: DailyStats | null): string => {
+    if (!day) return closedColor;
+    const level = getHeatmapLevel(day.profitLoss, scale);
+    if (level === 0) return flatColor;
+    return (day.profitLoss > 0 ? PROFIT_SHADES : LOSS_SHADES)[level - 1];
+  };
+
+  const legendLevels = Array.from({ length: HEATMAP_LEVELS }, (_, index) => index);
+
+  return (
+    <>
+      {/* Calendar heatmap */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-1">Daily P&L Calendar</h3>
+        <p className={`${subTextClass} mb-4`}>Hover over a day for its trades and P&L</p>
+        <div className="overflow-x-auto">
+          {years.map(year => (
+            <div key={year.year} className="mb-4">
+              <div className="text-sm font-semibold mb-1">{year.year}</div>
+              <div className="inline-flex">
+                <div className="flex flex-col mr-1" style={{ gap: 2, paddingTop: 16 }}>
+                  {year.rows.map(dayOfWeek => (
+                    <div key={dayOfWeek} className={subTextClass} style={{ height: 12, lineHeight: '12px' }}>
+                      {SHORT_DAY_LABELS[dayOfWeek]}
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <div className="relative" style={{ height: 16 }}>
+                    {year.monthLabels.map(month => (
+                      <span key={month.label} className={`${subTextClass} absolute`} style={{ left: month.week * 14 }}>
+                        {month.label}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex" style={{ gap: 2 }}>
+                    {year.weeks.map((week, weekIndex) => (
+                      <div key={weekIndex} className="flex flex-col" style={{ gap: 2 }}>
+                        {week.map((cell, row) => (
+                          <div
+                            key={row}
+                            className="rounded-sm"
+                            style={{ width: 12, height: 12, backgroundColor: cell ? cellColor(cell.day) : 'transparent' }}
+                            title={cell ? (cell.day ? describeDay(cell.day) : `${cell.dateKey}\nMarket closed`) : undefined}
+                          />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className={`flex items-center gap-1 ${subTextClass}`}>
+          <span className="mr-1">Loss</span>
+          {[...legendLevels].reverse().map(level => (
+            <span key={`loss-${level}`} className="inline-block rounded-sm" style={{ width: 12, height: 12, backgroundColor: LOSS_SHADES[level] }} />
+          ))}
+          <span className="inline-block rounded-sm" style={{ width: 12, height: 12, backgroundColor: flatColor }} />
+          {legendLevels.map(level => (
+            <span key={`profit-${level}`} className="inline-block rounded-sm" style={{ width: 12, height: 12, backgroundColor: PROFIT_SHADES[level] }} />
+          ))}
+          <span className="ml-1">Profit</span>
+        </div>
+      </div>
+
+      {/* Day-of-week statistics */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-4">Day of Week Performance</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={tableHeaderClass}>Day</th>
+                <th className={tableHeaderClass}>Days</th>
+                <th className={tableHeaderClass}>Trades</th>
+                <th className={tableHeaderClass}>Win Rate</th>
+                <th className={tableHeaderClass}>Avg P&L</th>
+                <th className={tableHeaderClass}>Total P&L</th>
+                <th className={tableHeaderClass}>Worst Day</th>
+              </tr>
+            </thead>
+            <tbody>
+              {daysOfWeek.map(day => (
+                <tr key={day.dayOfWeek}>
+                  <td className={tableCellClass}>{day.label}</td>
+                  <td className={tableCellClass}>{day.days.toLocaleString()}</td>
+                  <td className={tableCellClass}>{day.trades.toLocaleString()}</td>
+                  <td className={tableCellClass}>{day.winRate.toFixed(2)}%</td>
+                  <td className={`${tableCellClass} ${day.averagePnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatCurrency(day.averagePnl)}
+                  </td>
+                  <td className={`${tableCellClass} ${day.profitLoss >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatCurrency(day.profitLoss)}
+                  </td>
+                  <td className={tableCellClass}>
+                    {day.worstDay ? (
+                      <>
+                        <span className={day.worstDay.profitLoss < 0 ? 'text-red-500' : ''}>{formatCurrency(day.worstDay.profitLoss)}</span>
+                        <span className={`${subTextClass} ml-2`}>{day.worstDay.date}</span>
+                      </>
+                    ) : 'N/A'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CalendarResults;
@@ -0,0 +1,106 @@
+import { DailyStats, DayOfWeekStats } from './types';
+import { toDateKey } from './trading-calendar';
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first; the weekend only shows up for calendars that trade it
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [6, 0];
+
+// Days beyond this percentile of absolute daily P&L all get the darkest shade
+const HEATMAP_SCALE_PERCENTILE = 0.95;
+export const HEATMAP_LEVELS = 4;
+
+export interface HeatmapCell {
+  dateKey: string;
+  day: DailyStats | null; // null on days the calendar doesn't trade
+}
+
+export interface HeatmapYear {
+  year: number;
+  rows: number[];                    // Day of week shown on each row
+  weeks: (HeatmapCell | null)[][];   // One column per week; null outside the simulated range
+  monthLabels: { label: string; week: number }[];
+}
+
+const hasWeekendTrading = (daily: DailyStats[]): boolean => daily.some(day => WEEKEND.includes(day.dayOfWeek));
+
+export const summarizeDaysOfWeek = (daily: DailyStats[]): DayOfWeekStats[] => {
+  const weekdays = hasWeekendTrading(daily) ? [...WEEKDAYS, ...WEEKEND] : WEEKDAYS;
+  return weekdays.map(dayOfWeek => {
+    const days = daily.filter(day => day.dayOfWeek === dayOfWeek);
+    const wins = days.reduce((sum, day) => sum + day.wins, 0);
+    const losses = days.reduce((sum, day) => sum + day.losses, 0);
+    const profitLoss = days.reduce((sum, day) => sum + day.profitLoss, 0);
+    return {
+      dayOfWeek,
+      label: DAY_LABELS[dayOfWeek],
+      days: days.length,
+      trades: days.reduce((sum, day) => sum + day.trades, 0),
+      wins,
+      losses,
+      profitLoss,
+      averagePnl: days.length > 0 ? profitLoss / days.length : 0,
+      winRate: wins / (wins + losses) * 100 || 0,
+      worstDay: days.reduce<DailyStats | null>((worst, day) => (!worst || day.profitLoss < worst.profitLoss ? day : worst), null)
+    };
+  });
+};
+
+const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Lay the trading days out GitHub style: one grid per calendar year, a column per week and a row per weekday
+export const buildCalendarHeatmap = (daily: DailyStats[]): HeatmapYear[] => {
+  if (daily.length === 0) return [];
+  const byKey = new Map(daily.map(day => [day.dateKey, day]));
+  const rows = hasWeekendTrading(daily) ? [...WEEKDAYS, ...WEEKEND] : WEEKDAYS;
+  const first = parseDateKey(daily[0].dateKey);
+  const last = parseDateKey(daily[daily.length - 1].dateKey);
+
+  const years: HeatmapYear[] = [];
+  for (let year = first.getFullYear(); year <= last.getFullYear(); year++) {
+    const start = year === first.getFullYear() ? first : new Date(year, 0, 1);
+    const end = year === last.getFullYear() ? last : new Date(year, 11, 31);
+
+    // Columns start on the Monday of the first week
+    const cursor = new Date(start);
+    cursor.setDate(cursor.getDate() - ((cursor.getDay() + 6) % 7));
+    const weeks: (HeatmapCell | null)[][] = [];
+    const monthLabels: { label: string; week: number }[] = [];
+    let labelledMonth = -1;
+    while (cursor <= end) {
+      const week = new Array<HeatmapCell | null>(rows.length).fill(null);
+      for (let i = 0; i < 7; i++) {
+        const row = rows.indexOf(cursor.getDay());
+        if (row >= 0 && cursor >= start && cursor <= end) {
+          const dateKey = toDateKey(cursor);
+          week[row] = { dateKey, day: byKey.get(dateKey) || null };
+          if (cursor.getMonth() !== labelledMonth) {
+            labelledMonth = cursor.getMonth();
+            monthLabels.push({ label: cursor.toLocaleString('default', { month: 'short' }), week: weeks.length });
+          }
+        }
+        cursor.setDate(cursor.getDate() + 1);
+      }
+      weeks.push(week);
+    }
+    years.push({ year, rows, weeks, monthLabels });
+  }
+  return years;
+};
+
+// Absolute P&L that maps to the darkest shade, ignoring the few most extreme days
+export const getHeatmapScale = (daily: DailyStats[]): number => {
+  const sizes = daily.filter(day => day.profitLoss !== 0).map(day => Math.abs(day.profitLoss)).sort((a, b) => a - b);
+  if (sizes.length === 0) return 0;
+  return sizes[Math.min(sizes.length - 1, Math.floor(sizes.length * HEATMAP_SCALE_PERCENTILE))];
+};
+
+// Shade from 1 to HEATMAP_LEVELS, or 0 for a flat day
+export const getHeatmapLevel = (profitLoss: number, scale: number): number => {
+  if (profitLoss === 0 || scale <= 0) return 0;
+  return Math.min(HEATMAP_LEVELS, Math.ceil((Math.abs(profitLoss) / scale) * HEATMAP_LEVELS));
+};
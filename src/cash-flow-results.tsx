@@ -0,0 +1,142 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { SimulationStats } from './types';
+
+interface CashFlowResultsProps {
+  stats: SimulationStats;
+  darkMode: boolean;
+}
+
+const formatCurrency = (value: number): string => `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`;
+
+const CashFlowResults: React.FC<CashFlowResultsProps> = ({ stats, darkMode }) => {
+  const { cashFlows } = stats;
+  if (cashFlows.records.length === 0) return null;
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left sticky top-0 bg-gray-800 whitespace-nowrap"
+    : "py-2 px-4 border-b text-left sticky top-0 bg-white whitespace-nowrap";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 whitespace-nowrap"
+    : "py-2 px-4 border-b whitespace-nowrap";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-1">Deposits & Withdrawals</h2>
+      <p className={`${subTextClass} mb-4`}>
+        Cash moved on the last trading day of each month, kept apart from trading P&L
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-4">
+        <div className={cardClass}>
+          <h3 className={labelClass}>Trading P&L</h3>
+          <p className={`text-2xl font-bold ${stats.totalProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+            {formatCurrency(stats.totalProfit)}
+          </p>
+          <p className={subTextClass}>Before deposits and withdrawals</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Total Deposits</h3>
+          <p className="text-2xl font-bold">{formatCurrency(cashFlows.totalDeposits)}</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Total Withdrawals</h3>
+          <p className="text-2xl font-bold">{formatCurrency(cashFlows.totalWithdrawals)}</p>
+          <p className={subTextClass}>
+            {cashFlows.blockedWithdrawals > 0
+              ? `Minimum balance held back ${cashFlows.blockedWithdrawals} month${cashFlows.blockedWithdrawals === 1 ? '' : 's'}`
+              : 'Never held back by the minimum balance'}
+          </p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Net Cash Flow</h3>
+          <p className="text-2xl font-bold">{formatCurrency(cashFlows.netCashFlow)}</p>
+          <p className={subTextClass}>
+            {formatCurrency(stats.initialEquity)} start + trading P&L + net cash flow = {formatCurrency(stats.finalEquity)}
+          </p>
+        </div>
+        <div className={cardClass} title="Daily returns chained together with each deposit and withdrawal taken out">
+          <h3 className={labelClass}>Time-Weighted Return</h3>
+          <p className={`text-2xl font-bold ${cashFlows.timeWeightedReturn >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+            {cashFlows.timeWeightedReturn.toFixed(2)}%
+          </p>
+          <p className={subTextClass}>Not distorted by deposits or withdrawals</p>
+        </div>
+      </div>
+
+      <div className={`${cardClass} mb-4`}>
+        <h3 className="text-lg font-bold mb-4">Cumulative Cash Flows</h3>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={cashFlows.records}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="month"
+                tick={{ fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" }}
+                stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+              />
+              <YAxis
+                tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+                stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) => ['$' + Math.round(value).toLocaleString(), name]}
+                contentStyle={{
+                  backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                  borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                  color: darkMode ? "#F3F4F6" : "#111827"
+                }}
+              />
+              <Legend />
+              <Line type="stepAfter" dataKey="cumulativeWithdrawals" name="Cumulative Withdrawals" stroke="#F59E0B" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="equityAfter" name="Account Balance" stroke="#10B981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className={`${cardClass} overflow-auto`} style={{ maxHeight: 360 }}>
+        <table className="min-w-full">
+          <thead>
+            <tr>
+              <th className={tableHeaderClass}>Date</th>
+              <th className={tableHeaderClass}>Deposit</th>
+              <th className={tableHeaderClass}>Withdrawal</th>
+              <th className={tableHeaderClass}>Balance After</th>
+              <th className={tableHeaderClass}>Cumulative Withdrawals</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cashFlows.records.map(record => (
+              <tr key={record.date}>
+                <td className={tableCellClass}>{record.date}</td>
+                <td className={tableCellClass}>{formatCurrency(record.deposit)}</td>
+                <td className={tableCellClass}>
+                  {formatCurrency(record.withdrawal)}
+                  {record.blocked && <span className="ml-2 text-xs text-amber-500">held back by minimum balance</span>}
+                </td>
+                <td className={tableCellClass}>{formatCurrency(record.equityAfter)}</td>
+                <td className={tableCellClass}>{formatCurrency(record.cumulativeWithdrawals)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowResults;
@@ -0,0 +1,112 @@
+import { SimulationSettings, WithdrawalModel, CashFlowRecord, CashFlowSummary, EquityPoint } from './types';
+
+export const WITHDRAWAL_MODELS: { value: WithdrawalModel; label: string }[] = [
+  { value: 'none', label: 'No Withdrawals' },
+  { value: 'fixed', label: 'Fixed Monthly Amount' },
+  { value: 'profit-percent', label: "% of the Month's Profit" },
+  { value: 'high-water-mark', label: 'Everything Above a High-Water Mark' }
+];
+
+export interface CashFlowTracker {
+  // Add the month's deposit and take any withdrawal due on its last trading day; returns the net amount added
+  settleMonth: (equity: number, monthProfit: number, date: string, month: string) => number;
+  getNetCashFlow: () => number;
+  getSummary: (equityCurve: EquityPoint[]) => CashFlowSummary;
+}
+
+// Prop challenges are judged on trading alone, so they never move money in or out
+export const isCashFlowEnabled = (params: SimulationSettings): boolean => {
+  if (params.challengeMode) return false;
+  return (params.annualContribution || 0) > 0 || (params.withdrawalModel || 'none') !== 'none';
+};
+
+// Net money moved in (positive) or out on the day of the given equity curve point
+export const getDayCashFlow = (equityCurve: EquityPoint[], index: number): number => {
+  return (equityCurve[index]?.netCashFlow ?? 0) - (equityCurve[index - 1]?.netCashFlow ?? 0);
+};
+
+// Equity with every deposit and withdrawal to date backed out, so only trading moves it
+export const getTradingEquity = (point: EquityPoint): number => point.equity - (point.netCashFlow ?? 0);
+
+// Chain the daily returns with each day's cash flow taken out, so money moved in or out doesn't count as performance
+export const getTimeWeightedReturn = (equityCurve: EquityPoint[]): number => {
+  let growth = 1;
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous <= 0) continue;
+    growth *= (equityCurve[i].equity - getDayCashFlow(equityCurve, i)) / previous;
+  }
+  return (growth - 1) * 100;
+};
+
+export const createEmptyCashFlowSummary = (): CashFlowSummary => ({
+  totalDeposits: 0,
+  totalWithdrawals: 0,
+  netCashFlow: 0,
+  blockedWithdrawals: 0,
+  timeWeightedReturn: 0,
+  records: []
+});
+
+// Moves scheduled deposits and withdrawals through the account at each month end
+export const createCashFlowTracker = (params: SimulationSettings): CashFlowTracker => {
+  const model = params.withdrawalModel || 'none';
+  const monthlyDeposit = Math.max(0, params.annualContribution || 0) / 12;
+  const minimumBalance = Math.max(0, params.minimumBalance || 0);
+  const highWaterMark = (params.withdrawalHighWaterMark || 0) > 0 ? params.withdrawalHighWaterMark || 0 : params.startingEquity;
+  const records: CashFlowRecord[] = [];
+
+  let totalDeposits = 0;
+  let totalWithdrawals = 0;
+  let blockedWithdrawals = 0;
+
+  const getWithdrawalDue = (equity: number, monthProfit: number): number => {
+    switch (model) {
+      case 'fixed':
+        return Math.max(0, params.monthlyWithdrawal || 0);
+      case 'profit-percent':
+        return Math.max(0, monthProfit) * Math.max(0, params.withdrawalProfitPercent || 0) / 100;
+      case 'high-water-mark':
+        // Deposits raise the mark, so they stay in the account
+        return Math.max(0, equity - (highWaterMark + totalDeposits));
+      default:
+        return 0;
+    }
+  };
+
+  const settleMonth = (equity: number, monthProfit: number, date: string, month: string): number => {
+    const deposit = monthlyDeposit;
+    totalDeposits += deposit;
+    const balance = equity + deposit;
+
+    const due = getWithdrawalDue(balance, monthProfit);
+    const withdrawal = Math.min(due, Math.max(0, balance - minimumBalance));
+    const blocked = withdrawal < due;
+    totalWithdrawals += withdrawal;
+    if (blocked) blockedWithdrawals++;
+
+    records.push({
+      date,
+      month,
+      deposit,
+      withdrawal,
+      blocked,
+      equityAfter: balance - withdrawal,
+      cumulativeWithdrawals: totalWithdrawals
+    });
+    return deposit - withdrawal;
+  };
+
+  return {
+    settleMonth,
+    getNetCashFlow: () => totalDeposits - totalWithdrawals,
+    getSummary: (equityCurve: EquityPoint[]) => ({
+      totalDeposits,
+      totalWithdrawals,
+      netCashFlow: totalDeposits - totalWithdrawals,
+      blockedWithdrawals,
+      timeWeightedReturn: getTimeWeightedReturn(equityCurve),
+      records
+    })
+  };
+};
@@ -0,0 +1,64 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+export const escapeCsvField = (field: string | number | boolean | null | undefined): string => {
+  if (field === null || field === undefined) return '';
+  const text = String(field);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+// Build a CSV document with a header row from a list of rows
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [columns.map(column => escapeCsvField(column.header)).join(',')];
+  rows.forEach(row => {
+    lines.push(columns.map(column => escapeCsvField(column.value(row))).join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+// Split CSV text into rows of fields, honoring quoted fields with embedded commas, quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,93 @@
+import { SimulationSettings } from './types';
+import { DEFAULT_CHALLENGE_ATTEMPTS } from './prop-challenge';
+import { DEFAULT_WIN_STD_DEV_R, DEFAULT_LOSS_STD_DEV_R, DEFAULT_OUTSIZED_LOSS_R } from './trade-outcomes';
+import { createDefaultRegimes } from './market-regimes';
+import { DEFAULT_RISK_WARNING_PERCENT } from './edge-analysis';
+
+// Format dates to YYYY-MM-DD for input fields
+export const formatDateForInput = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+// Default settings: one year of trading starting today
+export const createDefaultSettings = (): SimulationSettings => {
+  // Get current date for start date
+  const today = new Date();
+  // Get date one year from now for end date
+  const oneYearFromNow = new Date();
+  oneYearFromNow.setFullYear(today.getFullYear() + 1);
+
+  return {
+    // Required fields from your interface
+    initialCapital: 10000,
+    annualContribution: 0,
+    yearsToSimulate: 1,
+    expectedReturn: 10,
+    volatility: 15,
+    tradingFrequency: 'daily',
+    tradingStrategy: 'momentum',
+
+    // Fields shown in the UI - updated with dynamic dates
+    startDate: formatDateForInput(today),
+    endDate: formatDateForInput(oneYearFromNow),
+    tradesPerDay: 4,
+    winRate: 55,
+    riskRewardRatio: 1,
+    startingEquity: 50000,
+    riskPerTrade: 250,
+    positionSizingModel: 'fixed-dollar',
+    riskWarningPercent: DEFAULT_RISK_WARNING_PERCENT,
+
+    // Additional required fields
+    positionSizingPercent: 2,
+    maxDrawdownPercent: 0,
+    averageWinAmount: 0,
+    averageLossAmount: 0,
+
+    // Optional fields
+    darkMode: false,
+    tradingCalendar: 'nyse',
+    blackoutDates: [],
+    feesPerTrade: 0,
+    commissionModel: 'flat',
+    averageSlippageR: 0,
+    winDistribution: 'fixed',
+    winStdDevR: DEFAULT_WIN_STD_DEV_R,
+    winHistogram: [{ rMultiple: 0.5, weight: 30 }, { rMultiple: 1, weight: 40 }, { rMultiple: 3, weight: 30 }],
+    lossDistribution: 'fixed',
+    lossStdDevR: DEFAULT_LOSS_STD_DEV_R,
+    lossHistogram: [{ rMultiple: 0.5, weight: 20 }, { rMultiple: 1, weight: 75 }, { rMultiple: 2, weight: 5 }],
+    breakevenRate: 0,
+    outsizedLossRate: 0,
+    outsizedLossR: DEFAULT_OUTSIZED_LOSS_R,
+    outcomeSource: 'parameters',
+    bootstrapMode: 'trade',
+    bootstrapSample: [],
+    regimeModel: false,
+    regimes: createDefaultRegimes(),
+    taxRate: 0,
+    taxSettlement: 'year-end',
+    payTaxesFromAccount: false,
+    withdrawalModel: 'none',
+    monthlyWithdrawal: 0,
+    withdrawalProfitPercent: 50,
+    withdrawalHighWaterMark: 0,
+    minimumBalance: 0,
+    dailyLossLimit: 0,
+    dailyProfitTarget: 0,
+    dailyLimitUnit: 'dollars',
+    maxConsecutiveLosses: 0,
+    drawdownAction: 'halt',
+    drawdownPauseDays: 5,
+    challengeMode: false,
+    challengeProfitTarget: 5000,
+    challengeMaxLoss: 2500,
+    challengeMaxLossType: 'trailing',
+    challengeDailyLossLimit: 1000,
+    challengeMinTradingDays: 5,
+    challengeTimeLimitDays: 30,
+    challengeAttempts: DEFAULT_CHALLENGE_ATTEMPTS,
+    monteCarloPaths: 1,
+    ruinLevel: 25000
+  };
+};
@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowUpDown } from 'lucide-react';
+import { SimulationStats, DrawdownEpisode } from './types';
+import { getUnderwaterCurve, summarizeDrawdowns } from './drawdowns';
+
+interface DrawdownResultsProps {
+  stats: SimulationStats;
+  darkMode: boolean;
+}
+
+type SortKey = 'order' | 'depthPercent' | 'depthAmount' | 'durationDays' | 'daysToTrough' | 'daysToRecovery';
+
+// Unrecovered episodes sort as the longest recoveries
+const sortValue = (episode: DrawdownEpisode & { order: number }, key: SortKey): number => {
+  if (key === 'daysToRecovery') return episode.daysToRecovery ?? Infinity;
+  return episode[key];
+};
+
+const formatDays = (days: number | null): string => (days === null ? 'N/A' : `${Math.round(days).toLocaleString()} days`);
+
+const DrawdownResults: React.FC<DrawdownResultsProps> = ({ stats, darkMode }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('depthPercent');
+  const [sortAscending, setSortAscending] = useState(false);
+
+  const underwater = useMemo(() => getUnderwaterCurve(stats.equityCurve), [stats.equityCurve]);
+  const summary = useMemo(
+    () => summarizeDrawdowns(stats.drawdownEpisodes, stats.equityCurve),
+    [stats.drawdownEpisodes, stats.equityCurve]
+  );
+
+  const episodes = useMemo(() => {
+    const direction = sortAscending ? 1 : -1;
+    return stats.drawdownEpisodes
+      .map((episode, order) => ({ ...episode, order }))
+      .sort((a, b) => {
+        const difference = sortValue(a, sortKey) - sortValue(b, sortKey);
+        // Two unrecovered episodes compare as equal rather than NaN
+        return (Number.isNaN(difference) ? 0 : difference) * direction || a.order - b.order;
+      });
+  }, [stats.drawdownEpisodes, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'order');
+    }
+  };
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left sticky top-0 bg-gray-800 whitespace-nowrap"
+    : "py-2 px-4 border-b text-left sticky top-0 bg-white whitespace-nowrap";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 whitespace-nowrap"
+    : "py-2 px-4 border-b whitespace-nowrap";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  const sortableHeader = (key: SortKey, label: string) => (
+    <th className={`${tableHeaderClass} cursor-pointer select-none`} onClick={() => handleSort(key)}>
+      <span className="inline-flex items-center">
+        {label}
+        <ArrowUpDown size={14} className={`ml-1 ${sortKey === key ? 'text-blue-500' : 'opacity-40'}`} />
+      </span>
+    </th>
+  );
+
+  return (
+    <>
+      {/* Underwater chart */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-1">Underwater</h3>
+        <p className={`${subTextClass} mb-4`}>How far equity sits below its running peak each day</p>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart
+              data={underwater}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" }}
+                interval={Math.max(1, Math.floor(underwater.length / 10))}
+                stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+              />
+              <YAxis
+                domain={['dataMin', 0]}
+                tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+                stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+              />
+              <Tooltip
+                formatter={(value: number) => [`${value.toFixed(2)}%`, 'Below Peak']}
+                contentStyle={{
+                  backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                  borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                  color: darkMode ? "#F3F4F6" : "#111827"
+                }}
+              />
+              <Area
+                type="stepAfter"
+                dataKey="drawdown"
+                stroke="#EF4444"
+                fill="#EF4444"
+                fillOpacity={0.3}
+                dot={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Drawdown episodes */}
+      <div className="mb-6">
+        <h2 className="text-xl font-bold mb-4">Drawdown Episodes</h2>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
+          <div className={cardClass}>
+            <h3 className={labelClass}>Episodes</h3>
+            <p className="text-2xl font-bold">{summary.episodes.toLocaleString()}</p>
+            <p className={subTextClass}>{summary.recovered.toLocaleString()} recovered</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Avg Time to Recovery</h3>
+            <p className="text-2xl font-bold">{formatDays(summary.averageRecoveryDays)}</p>
+            <p className={subTextClass}>Median {formatDays(summary.medianRecoveryDays)}, trough back to peak</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Longest Recovery</h3>
+            <p className="text-2xl font-bold">{formatDays(summary.longestRecoveryDays)}</p>
+            <p className={subTextClass}>Longest episode {formatDays(summary.longestDurationDays)}, peak to recovery</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Current Drawdown</h3>
+            <p className={`text-2xl font-bold ${summary.currentDrawdownPercent > 0 ? 'text-red-500' : 'text-green-500'}`}>
+              {summary.currentDrawdownPercent.toFixed(2)}%
+            </p>
+            <p className={subTextClass}>
+              Avg depth {summary.averageDepthPercent.toFixed(2)}% over {formatDays(summary.averageDurationDays)}
+            </p>
+          </div>
+        </div>
+
+        {episodes.length > 0 ? (
+          <div className={`${cardClass} overflow-auto`} style={{ maxHeight: 480 }}>
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  {sortableHeader('order', 'Peak')}
+                  <th className={tableHeaderClass}>Trough</th>
+                  <th className={tableHeaderClass}>Recovery</th>
+                  {sortableHeader('depthPercent', 'Depth %')}
+                  {sortableHeader('depthAmount', 'Depth $')}
+                  {sortableHeader('daysToTrough', 'Days to Trough')}
+                  {sortableHeader('daysToRecovery', 'Days to Recover')}
+                  {sortableHeader('durationDays', 'Duration')}
+                </tr>
+              </thead>
+              <tbody>
+                {episodes.map(episode => (
+                  <tr key={episode.order}>
+                    <td className={tableCellClass}>{episode.peakDate}</td>
+                    <td className={tableCellClass}>{episode.troughDate}</td>
+                    <td className={tableCellClass}>
+                      {episode.recoveryDate || <span className="text-red-500">Not recovered</span>}
+                    </td>
+                    <td className={`${tableCellClass} text-red-500`}>{episode.depthPercent.toFixed(2)}%</td>
+                    <td className={`${tableCellClass} text-red-500`}>${Math.round(episode.depthAmount).toLocaleString()}</td>
+                    <td className={tableCellClass}>{episode.daysToTrough}</td>
+                    <td className={tableCellClass}>{episode.daysToRecovery ?? 'N/A'}</td>
+                    <td className={tableCellClass}>{episode.durationDays}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={subTextClass}>Equity never fell below a previous peak</p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default DrawdownResults;
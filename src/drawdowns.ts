@@ -0,0 +1,105 @@
+import { EquityPoint, DrawdownEpisode, DrawdownSummary } from './types';
+import { getTradingEquity } from './cash-flows';
+
+export interface UnderwaterPoint {
+  date: string;
+  drawdown: number; // % below the running peak, as a negative number
+}
+
+// Split the end-of-day equity curve into drawdown episodes. An episode opens on the first day below
+// the running peak and closes on the day equity gets back to that peak; matching the peak counts.
+// Deposits and withdrawals shift the peak by the amount moved, so only trading opens an episode.
+export const findDrawdownEpisodes = (equityCurve: EquityPoint[]): DrawdownEpisode[] => {
+  const episodes: DrawdownEpisode[] = [];
+  if (equityCurve.length === 0) return episodes;
+
+  let peakIndex = 0;
+  let troughIndex = 0;
+  let inDrawdown = false;
+
+  const closeEpisode = (recoveryIndex: number | null) => {
+    const peak = equityCurve[peakIndex];
+    const trough = equityCurve[troughIndex];
+    const endIndex = recoveryIndex ?? equityCurve.length - 1;
+    const depthAmount = getTradingEquity(peak) - getTradingEquity(trough);
+    // The peak as it stood on the trough day, after any cash moved in between
+    const adjustedPeak = getTradingEquity(peak) + (trough.netCashFlow ?? 0);
+    episodes.push({
+      peakDate: peak.date,
+      troughDate: trough.date,
+      recoveryDate: recoveryIndex === null ? null : equityCurve[recoveryIndex].date,
+      peakEquity: peak.equity,
+      troughEquity: trough.equity,
+      depthPercent: adjustedPeak > 0 ? (depthAmount / adjustedPeak) * 100 : 0,
+      depthAmount,
+      durationDays: endIndex - peakIndex,
+      daysToTrough: troughIndex - peakIndex,
+      daysToRecovery: recoveryIndex === null ? null : recoveryIndex - troughIndex
+    });
+  };
+
+  for (let i = 1; i < equityCurve.length; i++) {
+    const equity = getTradingEquity(equityCurve[i]);
+    if (equity >= getTradingEquity(equityCurve[peakIndex])) {
+      if (inDrawdown) closeEpisode(i);
+      inDrawdown = false;
+      peakIndex = i;
+    } else if (!inDrawdown) {
+      inDrawdown = true;
+      troughIndex = i;
+    } else if (equity < getTradingEquity(equityCurve[troughIndex])) {
+      troughIndex = i;
+    }
+  }
+  if (inDrawdown) closeEpisode(null);
+
+  return episodes;
+};
+
+// The episode with the deepest percentage drop, or null when equity never fell below a peak
+export const getDeepestDrawdown = (episodes: DrawdownEpisode[]): DrawdownEpisode | null => {
+  return episodes.reduce<DrawdownEpisode | null>(
+    (deepest, episode) => (!deepest || episode.depthPercent > deepest.depthPercent ? episode : deepest),
+    null
+  );
+};
+
+// Percent below the running peak for every point of the equity curve, with the peak shifted by cash flows
+export const getUnderwaterCurve = (equityCurve: EquityPoint[]): UnderwaterPoint[] => {
+  let peak = -Infinity;
+  return equityCurve.map(point => {
+    const tradingEquity = getTradingEquity(point);
+    peak = Math.max(peak, tradingEquity);
+    const adjustedPeak = peak + (point.netCashFlow ?? 0);
+    return {
+      date: point.date,
+      drawdown: adjustedPeak > 0 ? -((peak - tradingEquity) / adjustedPeak) * 100 : 0
+    };
+  });
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+export const summarizeDrawdowns = (episodes: DrawdownEpisode[], equityCurve: EquityPoint[]): DrawdownSummary => {
+  const recoveryDays = episodes
+    .flatMap(episode => (episode.daysToRecovery === null ? [] : [episode.daysToRecovery]))
+    .sort((a, b) => a - b);
+  const middle = Math.floor(recoveryDays.length / 2);
+  const last = episodes[episodes.length - 1];
+  const open = last && last.recoveryDate === null;
+  const underwater = open ? getUnderwaterCurve(equityCurve) : [];
+
+  return {
+    episodes: episodes.length,
+    recovered: recoveryDays.length,
+    averageDepthPercent: average(episodes.map(episode => episode.depthPercent)),
+    averageDurationDays: average(episodes.map(episode => episode.durationDays)),
+    averageRecoveryDays: recoveryDays.length > 0 ? average(recoveryDays) : null,
+    medianRecoveryDays: recoveryDays.length === 0
+      ? null
+      : recoveryDays.length % 2 === 1 ? recoveryDays[middle] : (recoveryDays[middle - 1] + recoveryDays[middle]) / 2,
+    longestRecoveryDays: recoveryDays.length > 0 ? recoveryDays[recoveryDays.length - 1] : null,
+    longestDurationDays: episodes.reduce((longest, episode) => Math.max(longest, episode.durationDays), 0),
+    currentDrawdownPercent: open ? -(underwater[underwater.length - 1]?.drawdown ?? 0) : 0
+  };
+};
@@ -0,0 +1,237 @@
+import { SimulationSettings, OutcomeDistribution, RMultipleBucket, EdgeAnalysis } from './types';
+import { DEFAULT_WIN_STD_DEV_R, DEFAULT_LOSS_STD_DEV_R, DEFAULT_OUTSIZED_LOSS_R, TradeConditions } from './trade-outcomes';
+import { isBootstrapEnabled } from './bootstrap';
+import { isRegimeModelEnabled, getStationaryDistribution } from './market-regimes';
+import { getInitialRisk } from './position-sizing';
+import { calculateCommission } from './trading-costs';
+
+// Risking more than this % of equity on one trade gets a warning, unless the settings set another level
+export const DEFAULT_RISK_WARNING_PERCENT = 2;
+
+// Average R and average squared R of one trade
+interface Moments {
+  mean: number;
+  meanSquare: number;
+}
+
+const combineMoments = (parts: { share: number; moments: Moments }[]): Moments => ({
+  mean: parts.reduce((sum, { share, moments }) => sum + share * moments.mean, 0),
+  meanSquare: parts.reduce((sum, { share, moments }) => sum + share * moments.meanSquare, 0)
+});
+
+// Moments of a win or loss size, matching the samplers in trade-outcomes
+const getSizeMoments = (
+  distribution: OutcomeDistribution,
+  mean: number,
+  stdDev: number,
+  histogram: RMultipleBucket[] | undefined
+): Moments => {
+  switch (distribution) {
+    case 'normal':
+    case 'lognormal':
+      // The normal sampler's clamp at zero is ignored; it only matters when the spread rivals the mean
+      if (stdDev <= 0 || (distribution === 'lognormal' && mean <= 0)) break;
+      return { mean, meanSquare: mean ** 2 + stdDev ** 2 };
+
+    case 'custom': {
+      const buckets = (histogram || []).filter(bucket => bucket.weight > 0);
+      const totalWeight = buckets.reduce((sum, bucket) => sum + bucket.weight, 0);
+      if (totalWeight <= 0) break;
+      return {
+        mean: buckets.reduce((sum, bucket) => sum + bucket.rMultiple * bucket.weight, 0) / totalWeight,
+        meanSquare: buckets.reduce((sum, bucket) => sum + bucket.rMultiple ** 2 * bucket.weight, 0) / totalWeight
+      };
+    }
+
+    default:
+      break;
+  }
+  return { mean, meanSquare: mean ** 2 };
+};
+
+// Average win and loss sizes in R; losses include slipped stops and are positive
+const getWinLossMoments = (params: SimulationSettings): { win: Moments; loss: Moments } => {
+  const outsizedLossRate = (params.outsizedLossRate || 0) / 100;
+  const outsizedLossR = params.outsizedLossR ?? DEFAULT_OUTSIZED_LOSS_R;
+  const win = getSizeMoments(
+    params.winDistribution || 'fixed',
+    params.riskRewardRatio,
+    params.winStdDevR ?? DEFAULT_WIN_STD_DEV_R,
+    params.winHistogram
+  );
+  const stopLoss = getSizeMoments(
+    params.lossDistribution || 'fixed',
+    1,
+    params.lossStdDevR ?? DEFAULT_LOSS_STD_DEV_R,
+    params.lossHistogram
+  );
+  const loss = combineMoments([
+    { share: 1 - outsizedLossRate, moments: stopLoss },
+    { share: outsizedLossRate, moments: { mean: outsizedLossR, meanSquare: outsizedLossR ** 2 } }
+  ]);
+  return { win, loss };
+};
+
+// Gross R of one trade under a win rate and R:R; win sizes scale with the R:R like the sampler's
+const getConditionMoments = (
+  params: SimulationSettings,
+  win: Moments,
+  loss: Moments,
+  conditions: TradeConditions
+): Moments => {
+  const decided = 1 - (params.breakevenRate || 0) / 100;
+  const winRate = conditions.winRate / 100;
+  const rewardScale = conditions.riskRewardRatio / params.riskRewardRatio;
+  return combineMoments([
+    { share: decided * winRate, moments: { mean: win.mean * rewardScale, meanSquare: win.meanSquare * rewardScale ** 2 } },
+    { share: decided * (1 - winRate), moments: { mean: -loss.mean, meanSquare: loss.meanSquare } }
+  ]);
+};
+
+// Gross R of one trade before costs. Regimes mix in proportion to the time spent in each,
+// which ignores how they cluster wins and losses together.
+const getGrossMoments = (params: SimulationSettings): Moments => {
+  if (isBootstrapEnabled(params)) {
+    const trades = (params.bootstrapSample || []).flat();
+    if (trades.length === 0) return { mean: 0, meanSquare: 0 };
+    return {
+      mean: trades.reduce((sum, rMultiple) => sum + rMultiple, 0) / trades.length,
+      meanSquare: trades.reduce((sum, rMultiple) => sum + rMultiple ** 2, 0) / trades.length
+    };
+  }
+
+  const { win, loss } = getWinLossMoments(params);
+  if (!isRegimeModelEnabled(params)) return getConditionMoments(params, win, loss, params);
+
+  const regimes = params.regimes || [];
+  const shares = getStationaryDistribution(regimes);
+  return combineMoments(regimes.map(regime => ({
+    share: shares[regime.regime],
+    moments: getConditionMoments(params, win, loss, regime)
+  })));
+};
+
+// Win rate (% of decided trades) at which the average trade nets zero after costs; null when even 100% falls short
+const getBreakevenWinRate = (params: SimulationSettings, costR: number): number | null => {
+  let averageWinR: number;
+  let averageLossR: number;
+  let breakevenShare: number;
+
+  if (isBootstrapEnabled(params)) {
+    const trades = (params.bootstrapSample || []).flat();
+    const wins = trades.filter(rMultiple => rMultiple > 0);
+    const losses = trades.filter(rMultiple => rMultiple < 0);
+    averageWinR = wins.length > 0 ? wins.reduce((sum, rMultiple) => sum + rMultiple, 0) / wins.length : 0;
+    averageLossR = losses.length > 0 ? -losses.reduce((sum, rMultiple) => sum + rMultiple, 0) / losses.length : 0;
+    breakevenShare = trades.length > 0 ? (trades.length - wins.length - losses.length) / trades.length : 0;
+  } else {
+    const { win, loss } = getWinLossMoments(params);
+    averageWinR = win.mean;
+    averageLossR = loss.mean;
+    breakevenShare = (params.breakevenRate || 0) / 100;
+  }
+
+  const decided = 1 - breakevenShare;
+  if (decided <= 0 || averageWinR + averageLossR <= 0) return null;
+  const winRate = (averageLossR + costR / decided) / (averageWinR + averageLossR);
+  return winRate <= 1 ? Math.max(0, winRate) * 100 : null;
+};
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26)
+const normalCdf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const tail = (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x / 2);
+  return x >= 0 ? 1 - tail / 2 : tail / 2;
+};
+
+// Log of the normal CDF; far in the left tail the CDF underflows, so use its asymptotic form there
+const logNormalCdf = (x: number): number => {
+  if (x < -5) return -x * x / 2 - Math.log(-x * Math.sqrt(2 * Math.PI));
+  return Math.log(normalCdf(x));
+};
+
+// Chance that a random walk with this drift and variance per step falls `distance` below its start
+// within `steps` steps, using the first-passage probability of Brownian motion
+const getFirstPassageProbability = (drift: number, variance: number, distance: number, steps: number): number => {
+  if (distance <= 0) return 1;
+  if (steps <= 0) return 0;
+  if (variance <= 0) return drift * steps <= -distance ? 1 : 0;
+
+  const spread = Math.sqrt(variance * steps);
+  const direct = normalCdf((-distance - drift * steps) / spread);
+  // The reflected term multiplies a huge factor by a tiny one when the drift is negative, so work in logs
+  const reflected = Math.exp(-2 * drift * distance / variance + logNormalCdf((-distance + drift * steps) / spread));
+  return Math.min(1, direct + reflected);
+};
+
+// Expectancy, spread and risk of ruin over the projected trades, without running a simulation.
+// Risk and costs are taken at the initial risk; taxes, risk rules and the trading calendar's
+// pauses are left out.
+export const analyzeEdge = (params: SimulationSettings, projectedTrades: number): EdgeAnalysis => {
+  const startingEquity = params.startingEquity;
+  const initialRisk = getInitialRisk(params);
+  const trades = Math.max(0, projectedTrades);
+  const ruinLevel = params.ruinLevel ?? 0;
+
+  // Commission is fixed for a given risk; slippage is uniform between 0 and twice its average
+  const commissionR = initialRisk > 0 ? calculateCommission(params, initialRisk) / initialRisk : 0;
+  const slippageR = params.averageSlippageR || 0;
+  const gross = getGrossMoments(params);
+  const expectancyR = gross.mean - commissionR - slippageR;
+  const varianceR = Math.max(0, gross.meanSquare - gross.mean ** 2) + slippageR ** 2 / 3;
+  const riskPercent = startingEquity > 0 ? (initialRisk / startingEquity) * 100 : 0;
+
+  let expectedProfit: number;
+  let profitStdDev: number;
+  let riskOfRuin: number;
+
+  if ((params.positionSizingModel || 'fixed-dollar') === 'fixed-dollar') {
+    expectedProfit = trades * expectancyR * initialRisk;
+    profitStdDev = Math.sqrt(trades * varianceR) * initialRisk;
+    riskOfRuin = getFirstPassageProbability(
+      expectancyR * initialRisk,
+      varianceR * initialRisk ** 2,
+      startingEquity - ruinLevel,
+      trades
+    );
+  } else {
+    // Sizing from equity compounds: every trade multiplies equity by 1 + f * R.
+    // Step-ups only resize at their thresholds but are treated the same way.
+    const fraction = riskPercent / 100;
+    const meanSquareR = varianceR + expectancyR ** 2;
+    const growth = 1 + fraction * expectancyR;
+    const growthSquare = 1 + 2 * fraction * expectancyR + fraction ** 2 * meanSquareR;
+    expectedProfit = startingEquity * (growth ** trades - 1);
+    profitStdDev = startingEquity * Math.sqrt(Math.max(0, growthSquare ** trades - growth ** (2 * trades)));
+    // Compounding never reaches zero on its own, so the walk is in log equity and a zero ruin level can't be hit
+    riskOfRuin = ruinLevel > 0
+      ? getFirstPassageProbability(
+        fraction * expectancyR - (fraction ** 2 * meanSquareR) / 2,
+        fraction ** 2 * varianceR,
+        Math.log(startingEquity / ruinLevel),
+        trades
+      )
+      : 0;
+  }
+
+  const warnings: string[] = [];
+  if (expectancyR < 0) {
+    warnings.push(`Negative expectancy: the average trade loses ${Math.abs(expectancyR).toFixed(2)}R after costs`);
+  }
+  const riskWarningPercent = params.riskWarningPercent ?? DEFAULT_RISK_WARNING_PERCENT;
+  if (riskWarningPercent > 0 && riskPercent > riskWarningPercent) {
+    warnings.push(`Each trade risks ${riskPercent.toFixed(1)}% of equity, above the ${riskWarningPercent}% warning level`);
+  }
+
+  return {
+    expectancyR,
+    expectancy: expectancyR * initialRisk,
+    stdDevR: Math.sqrt(varianceR),
+    breakevenWinRate: getBreakevenWinRate(params, commissionR + slippageR),
+    expectedProfit,
+    profitStdDev,
+    riskOfRuin: riskOfRuin * 100,
+    riskPercent,
+    warnings
+  };
+};
@@ -0,0 +1,293 @@
+import { SimulationSettings, SimulationRunResult, HistogramBin, PeriodStats } from './types';
+import { PERFORMANCE_METRICS, formatPerformanceMetric } from './performance-metrics';
+import { getUnderwaterCurve } from './drawdowns';
+
+// A single self-contained HTML page with inline styles and SVG charts, so it opens and prints anywhere
+
+interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = { top: 24, right: 20, bottom: 30, left: 80 };
+const AXIS_TICKS = 5;
+const REPORT_DRAWDOWN_EPISODES = 10;
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatCurrency = (value: number): string => {
+  return `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString('en-US')}`;
+};
+
+const profitClass = (value: number): string => (value >= 0 ? 'positive' : 'negative');
+
+const lineChartSvg = (labels: string[], series: ChartSeries[], formatValue: (value: number) => string = formatCurrency): string => {
+  const values = series.flatMap(line => line.values).filter(Number.isFinite);
+  if (labels.length < 2 || values.length === 0) return '';
+
+  let min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  let max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (index: number) => CHART_PADDING.left + (index / (labels.length - 1)) * plotWidth;
+  const y = (value: number) => CHART_PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const parts: string[] = [];
+  for (let tick = 0; tick <= AXIS_TICKS; tick++) {
+    const value = min + ((max - min) * tick) / AXIS_TICKS;
+    parts.push(`<line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${y(value)}" y2="${y(value)}" class="grid" />`);
+    parts.push(`<text x="${CHART_PADDING.left - 8}" y="${y(value) + 4}" text-anchor="end">${formatValue(value)}</text>`);
+  }
+  for (let tick = 0; tick <= AXIS_TICKS; tick++) {
+    const index = Math.round(((labels.length - 1) * tick) / AXIS_TICKS);
+    const anchor = tick === 0 ? 'start' : tick === AXIS_TICKS ? 'end' : 'middle';
+    parts.push(`<text x="${x(index)}" y="${CHART_HEIGHT - 8}" text-anchor="${anchor}">${escapeHtml(labels[index])}</text>`);
+  }
+  series.forEach((line, lineIndex) => {
+    const points = line.values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+    parts.push(`<polyline points="${points}" fill="none" stroke="${line.color}" stroke-width="2" />`);
+    if (series.length > 1) {
+      const legendX = CHART_PADDING.left + lineIndex * 160;
+      parts.push(`<rect x="${legendX}" y="6" width="12" height="12" fill="${line.color}" />`);
+      parts.push(`<text x="${legendX + 18}" y="16">${escapeHtml(line.name)}</text>`);
+    }
+  });
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">${parts.join('')}</svg>`;
+};
+
+const barChartSvg = (bins: HistogramBin[], colorFor: (bin: HistogramBin) => string): string => {
+  if (bins.length === 0) return '';
+
+  const maxCount = Math.max(1, ...bins.map(bin => bin.count));
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const barWidth = plotWidth / bins.length;
+  const labelEvery = Math.max(1, Math.ceil(bins.length / 10));
+
+  const parts: string[] = [];
+  for (let tick = 0; tick <= AXIS_TICKS; tick++) {
+    const count = (maxCount * tick) / AXIS_TICKS;
+    const tickY = CHART_PADDING.top + (1 - count / maxCount) * plotHeight;
+    parts.push(`<line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${tickY}" y2="${tickY}" class="grid" />`);
+    parts.push(`<text x="${CHART_PADDING.left - 8}" y="${tickY + 4}" text-anchor="end">${Math.round(count)}</text>`);
+  }
+  bins.forEach((bin, index) => {
+    const height = (bin.count / maxCount) * plotHeight;
+    const barX = CHART_PADDING.left + index * barWidth;
+    parts.push(`<rect x="${(barX + 1).toFixed(1)}" y="${(CHART_PADDING.top + plotHeight - height).toFixed(1)}" width="${Math.max(1, barWidth - 2).toFixed(1)}" height="${height.toFixed(1)}" fill="${colorFor(bin)}"><title>${escapeHtml(bin.label)}: ${bin.count}</title></rect>`);
+    if (index % labelEvery === 0) {
+      parts.push(`<text x="${(barX + barWidth / 2).toFixed(1)}" y="${CHART_HEIGHT - 8}" text-anchor="middle">${escapeHtml(bin.label)}</text>`);
+    }
+  });
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">${parts.join('')}</svg>`;
+};
+
+const card = (label: string, value: string, className = ''): string => {
+  return `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value ${className}">${escapeHtml(value)}</div></div>`;
+};
+
+const table = (headers: string[], rows: string[][]): string => {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 0 auto; max-width: 960px; padding: 24px; }
+  h1 { margin-bottom: 4px; }
+  h2 { margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 14px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; }
+  .label { color: #6b7280; font-size: 12px; }
+  .value { font-size: 20px; font-weight: bold; }
+  .positive { color: #059669; }
+  .negative { color: #dc2626; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; }
+  tr:nth-child(even) td { background: #f9fafb; }
+  .chart { width: 100%; height: auto; font-size: 11px; fill: #374151; }
+  .chart .grid { stroke: #e5e7eb; }
+  .print { float: right; padding: 6px 12px; }
+  @media print {
+    .print { display: none; }
+    h2 { break-after: avoid; }
+    .chart, table { break-inside: avoid; }
+  }
+`;
+
+export const buildHtmlReport = (settings: SimulationSettings, result: SimulationRunResult): string => {
+  const { stats, monteCarlo, challengeBatch } = result;
+  const sections: string[] = [];
+
+  sections.push(`<h2>Summary</h2><div class="cards">${[
+    card('Initial Equity', formatCurrency(stats.initialEquity)),
+    card('Final Equity', formatCurrency(stats.finalEquity), profitClass(stats.totalProfit)),
+    card('Total Profit', formatCurrency(stats.totalProfit), profitClass(stats.totalProfit)),
+    card('Win Rate', `${stats.winRate.toFixed(2)}%`),
+    card('Total Trades', stats.totalTrades.toLocaleString('en-US')),
+    card('Avg R Per Day', `${stats.avgRPerDay.toFixed(2)}R`),
+    card('Avg Win', formatCurrency(stats.averageWin), 'positive'),
+    card('Avg Loss', formatCurrency(-stats.averageLoss), 'negative'),
+    card('Max Drawdown', `${stats.maxDrawdown.toFixed(2)}%`, 'negative'),
+    card('Max Win Streak', String(stats.maxWinStreak)),
+    card('Max Loss Streak', String(stats.maxLossStreak)),
+    card('Fees & Slippage', formatCurrency(stats.totalFees + stats.totalSlippage))
+  ].join('')}</div>`);
+
+  const taxEnabled = stats.equityCurve.some(point => point.afterTaxEquity !== undefined);
+  sections.push(`<h2>Performance Metrics</h2>${table(
+    ['Metric', 'Value', 'Definition'],
+    PERFORMANCE_METRICS.map(metric => [
+      escapeHtml(metric.label),
+      escapeHtml(formatPerformanceMetric(stats.performance[metric.key], metric.format)),
+      escapeHtml(metric.description)
+    ])
+  )}`);
+
+  sections.push(`<h2>Equity Curve</h2>${lineChartSvg(
+    stats.equityCurve.map(point => point.date),
+    taxEnabled
+      ? [
+        { name: 'Pre-Tax Equity', color: '#10B981', values: stats.equityCurve.map(point => point.preTaxEquity ?? point.equity) },
+        { name: 'After-Tax Equity', color: '#6366F1', values: stats.equityCurve.map(point => point.afterTaxEquity ?? point.equity) }
+      ]
+      : [{ name: 'Equity', color: '#10B981', values: stats.equityCurve.map(point => point.equity) }]
+  )}`);
+
+  const underwater = getUnderwaterCurve(stats.equityCurve);
+  const deepestEpisodes = [...stats.drawdownEpisodes].sort((a, b) => b.depthPercent - a.depthPercent).slice(0, REPORT_DRAWDOWN_EPISODES);
+  sections.push(`<h2>Underwater</h2>${lineChartSvg(
+    underwater.map(point => point.date),
+    [{ name: 'Below Peak', color: '#EF4444', values: underwater.map(point => point.drawdown) }],
+    value => `${value.toFixed(1)}%`
+  )}${deepestEpisodes.length > 0 ? `<h3>Deepest Drawdowns (${deepestEpisodes.length} of ${stats.drawdownEpisodes.length})</h3>${table(
+    ['Peak', 'Trough', 'Recovery', 'Depth', 'Days to Recover', 'Duration (Days)'],
+    deepestEpisodes.map(episode => [
+      escapeHtml(episode.peakDate),
+      escapeHtml(episode.troughDate),
+      escapeHtml(episode.recoveryDate || 'Not recovered'),
+      `<span class="negative">${episode.depthPercent.toFixed(2)}% (${formatCurrency(-episode.depthAmount)})</span>`,
+      episode.daysToRecovery === null ? 'N/A' : String(episode.daysToRecovery),
+      String(episode.durationDays)
+    ])
+  )}` : ''}`);
+
+  if (stats.challenge) {
+    sections.push(`<h2>Prop Firm Challenge</h2><div class="cards">${[
+      card('This Attempt', stats.challenge.passed ? 'Passed' : 'Failed', stats.challenge.passed ? 'positive' : 'negative'),
+      card('Ended', `${stats.challenge.endDate} (day ${stats.challenge.tradingDays})`),
+      challengeBatch ? card('Pass Probability', `${challengeBatch.passProbability.toFixed(1)}%`) : '',
+      challengeBatch ? card('Attempts', challengeBatch.attempts.toLocaleString('en-US')) : ''
+    ].join('')}</div>`);
+  }
+
+  if (monteCarlo) {
+    sections.push(`<h2>Monte Carlo (${monteCarlo.paths.toLocaleString('en-US')} paths)</h2><div class="cards">${[
+      card('Risk of Ruin', `${monteCarlo.riskOfRuin.toFixed(2)}%`, monteCarlo.riskOfRuin > 0 ? 'negative' : ''),
+      card('Ruin Level', formatCurrency(monteCarlo.ruinLevel)),
+      card('Profitable Paths', `${((monteCarlo.profitablePaths / monteCarlo.paths) * 100).toFixed(1)}%`)
+    ].join('')}</div>${lineChartSvg(
+      monteCarlo.percentileCurve.map(point => point.date),
+      [
+        { name: '5th Percentile', color: '#EF4444', values: monteCarlo.percentileCurve.map(point => point.p5) },
+        { name: 'Median', color: '#10B981', values: monteCarlo.percentileCurve.map(point => point.p50) },
+        { name: '95th Percentile', color: '#3B82F6', values: monteCarlo.percentileCurve.map(point => point.p95) }
+      ]
+    )}${table(
+      ['Metric', 'Mean', '5th', 'Median', '95th', 'Paths'],
+      monteCarlo.confidenceIntervals.map(interval => {
+        const format = (value: number | null) => value === null ? 'N/A'
+          : interval.format === 'currency' ? formatCurrency(value)
+            : interval.format === 'percent' ? `${value.toFixed(2)}%`
+              : interval.format === 'r' ? `${value.toFixed(2)}R`
+                : value.toFixed(2);
+        return [escapeHtml(interval.label), format(interval.mean), format(interval.p5), format(interval.p50), format(interval.p95), String(interval.paths)];
+      })
+    )}`);
+  }
+
+  const { cashFlows } = stats;
+  if (cashFlows.records.length > 0) {
+    sections.push(`<h2>Deposits & Withdrawals</h2><div class="cards">${[
+      card('Trading P&L', formatCurrency(stats.totalProfit), profitClass(stats.totalProfit)),
+      card('Total Deposits', formatCurrency(cashFlows.totalDeposits)),
+      card('Total Withdrawals', formatCurrency(cashFlows.totalWithdrawals)),
+      card('Net Cash Flow', formatCurrency(cashFlows.netCashFlow)),
+      card('Time-Weighted Return', `${cashFlows.timeWeightedReturn.toFixed(2)}%`, profitClass(cashFlows.timeWeightedReturn)),
+      card('Withdrawals Held Back', String(cashFlows.blockedWithdrawals))
+    ].join('')}</div>${lineChartSvg(
+      cashFlows.records.map(record => record.date),
+      [{ name: 'Cumulative Withdrawals', color: '#F59E0B', values: cashFlows.records.map(record => record.cumulativeWithdrawals) }]
+    )}`);
+  }
+
+  sections.push(`<h2>Realized R-Multiples</h2>${barChartSvg(stats.rMultipleHistogram, bin => (bin.rangeStart >= 0 ? '#10B981' : '#EF4444'))}`);
+
+  const breakdownRow = (period: string, winRate: string | undefined, profitLoss: number, trades: number, fees: number) => [
+    escapeHtml(period),
+    `${winRate ?? '0'}%`,
+    `<span class="${profitClass(profitLoss)}">${formatCurrency(profitLoss)}</span>`,
+    String(trades),
+    formatCurrency(fees)
+  ];
+  const periodRow = (period: PeriodStats) => [
+    escapeHtml(period.period),
+    `<span class="${profitClass(period.profitLoss)}">${formatCurrency(period.profitLoss)}</span>`,
+    `<span class="${profitClass(period.returnPercent)}">${period.returnPercent.toFixed(2)}%</span>`,
+    `${period.winRate.toFixed(2)}%`,
+    `${period.maxDrawdown.toFixed(2)}%`,
+    period.yearOverYearGrowth === null ? 'N/A' : `${period.yearOverYearGrowth.toFixed(2)}%`,
+    String(period.trades)
+  ];
+  const periodHeaders = ['Profit/Loss', 'Return', 'Win Rate', 'Max Drawdown', 'YoY Growth', 'Trades'];
+  sections.push(`<h2>Yearly Breakdown</h2>${table(['Year', ...periodHeaders], stats.yearlyBreakdown.map(periodRow))}`);
+  sections.push(`<h2>Quarterly Breakdown</h2>${table(['Quarter', ...periodHeaders], stats.quarterlyBreakdown.map(periodRow))}`);
+  sections.push(`<h2>Monthly Breakdown</h2>${table(
+    ['Month', 'Win Rate', 'Profit/Loss', 'Trades', 'Fees & Slippage'],
+    stats.monthlyBreakdown.map(month => breakdownRow(month.month, month.winRate, month.profitLoss, month.trades, month.fees))
+  )}`);
+  sections.push(`<h2>Weekly Breakdown</h2>${table(
+    ['Week', 'Win Rate', 'Profit/Loss', 'Trades', 'Fees & Slippage'],
+    stats.weeklyBreakdown.map(week => breakdownRow(week.week, week.winRate, week.profitLoss, week.trades, week.fees))
+  )}`);
+
+  // Scalar settings only; nested tables like regimes are in the JSON export
+  const settingRows = Object.entries(settings)
+    .filter(([, value]) => value !== undefined && typeof value !== 'object')
+    .map(([key, value]) => [escapeHtml(key), escapeHtml(String(value))]);
+  sections.push(`<h2>Settings</h2>${table(['Setting', 'Value'], settingRows)}`);
+
+  const title = `Trading Simulation Report (${settings.winRate}% Win Rate)`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print</button>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(`${String(settings.startDate)} to ${String(settings.endDate)} · Seed ${settings.seed ?? 'random'} · Generated ${new Date().toLocaleString()}`)}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { SimulationStats, RegimeComparison, RegimeComparisonMetrics } from './types';
+import { MARKET_REGIMES } from './market-regimes';
+
+interface MarketRegimeResultsProps {
+  stats: SimulationStats;
+  comparison?: RegimeComparison | null;
+  darkMode: boolean;
+}
+
+const COMPARISON_ROWS: { key: keyof RegimeComparisonMetrics; label: string; format: (value: number) => string }[] = [
+  { key: 'maxWinStreak', label: 'Max Win Streak', format: value => value.toFixed(1) },
+  { key: 'maxLossStreak', label: 'Max Loss Streak', format: value => value.toFixed(1) },
+  { key: 'maxDrawdown', label: 'Max Drawdown', format: value => `${value.toFixed(2)}%` },
+  { key: 'finalEquity', label: 'Final Equity', format: value => `$${Math.round(value).toLocaleString()}` }
+];
+
+const MarketRegimeResults: React.FC<MarketRegimeResultsProps> = ({ stats, comparison, darkMode }) => {
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left"
+    : "py-2 px-4 border-b text-left";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700"
+    : "py-2 px-4 border-b";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const totalDays = stats.regimes.reduce((sum, regime) => sum + regime.days, 0);
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-4">Market Regimes</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold mb-4">Time in Each Regime</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={tableHeaderClass}>Regime</th>
+                  <th className={tableHeaderClass}>Days</th>
+                  <th className={tableHeaderClass}>Win Rate</th>
+                  <th className={tableHeaderClass}>Profit/Loss</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.regimes.map(summary => {
+                  const regime = MARKET_REGIMES.find(option => option.value === summary.regime);
+                  const winRate = summary.wins / (summary.wins + summary.losses) * 100 || 0;
+                  return (
+                    <tr key={summary.regime}>
+                      <td className={tableCellClass}>
+                        <span className="inline-flex items-center">
+                          <span className="inline-block w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: regime?.color }} />
+                          {regime?.label || summary.regime}
+                        </span>
+                      </td>
+                      <td className={tableCellClass}>
+                        {summary.days} ({totalDays > 0 ? ((summary.days / totalDays) * 100).toFixed(0) : 0}%)
+                      </td>
+                      <td className={tableCellClass}>{winRate.toFixed(2)}%</td>
+                      <td className={tableCellClass}>
+                        <span className={summary.profitLoss >= 0 ? 'text-green-500' : 'text-red-500'}>
+                          ${Math.round(summary.profitLoss).toLocaleString()}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {comparison && (
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold mb-1">Regimes vs Independent Trades</h3>
+            <p className={`${subTextClass} mb-4`}>
+              Averages over {comparison.paths} paths. The baseline draws every trade independently at
+              {' '}{comparison.baselineWinRate.toFixed(1)}% win rate and 1:{comparison.baselineRiskRewardRatio.toFixed(2)} R:R,
+              the regime model's long-run averages
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr>
+                    <th className={tableHeaderClass}>Metric</th>
+                    <th className={tableHeaderClass}>Regime Model</th>
+                    <th className={tableHeaderClass}>Independent</th>
+                    <th className={tableHeaderClass}>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARISON_ROWS.map(row => {
+                    const regimeValue = comparison.regime[row.key];
+                    const baselineValue = comparison.baseline[row.key];
+                    const change = baselineValue !== 0 ? ((regimeValue - baselineValue) / Math.abs(baselineValue)) * 100 : 0;
+                    return (
+                      <tr key={row.key}>
+                        <td className={tableCellClass}>{row.label}</td>
+                        <td className={tableCellClass}>{row.format(regimeValue)}</td>
+                        <td className={tableCellClass}>{row.format(baselineValue)}</td>
+                        <td className={tableCellClass}>{change >= 0 ? '+' : ''}{change.toFixed(1)}%</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarketRegimeResults;
@@ -0,0 +1,100 @@
+import { SimulationSettings, RegimeSettings, MarketRegime } from './types';
+import { RandomSource } from './random';
+import { isBootstrapEnabled } from './bootstrap';
+
+export const REGIME_COMPARISON_PATHS = 200;
+
+export const MARKET_REGIMES: { value: MarketRegime; label: string; color: string }[] = [
+  { value: 'favorable', label: 'Favorable', color: '#10B981' },
+  { value: 'normal', label: 'Normal', color: '#3B82F6' },
+  { value: 'choppy', label: 'Choppy', color: '#F59E0B' }
+];
+
+export const createDefaultRegimes = (): RegimeSettings[] => [
+  { regime: 'favorable', winRate: 65, riskRewardRatio: 1.2, transitions: { favorable: 85, normal: 12, choppy: 3 } },
+  { regime: 'normal', winRate: 55, riskRewardRatio: 1, transitions: { favorable: 8, normal: 84, choppy: 8 } },
+  { regime: 'choppy', winRate: 40, riskRewardRatio: 0.9, transitions: { favorable: 3, normal: 15, choppy: 82 } }
+];
+
+export const isRegimeModelEnabled = (params: SimulationSettings): boolean => {
+  // Regimes switch the win rate and R:R, which a bootstrap sample doesn't use
+  return !!params.regimeModel && (params.regimes?.length || 0) > 0 && !isBootstrapEnabled(params);
+};
+
+// Check the regime table; returns a list of problems
+export const validateRegimes = (regimes: RegimeSettings[]): string[] => {
+  const errors: string[] = [];
+  regimes.forEach(regime => {
+    const transitionTotal = MARKET_REGIMES.reduce((sum, { value }) => sum + (regime.transitions[value] || 0), 0);
+    if (!(regime.winRate >= 0 && regime.winRate <= 100)) errors.push(`${regime.regime} winRate must be between 0 and 100`);
+    if (!(regime.riskRewardRatio > 0)) errors.push(`${regime.regime} riskRewardRatio must be greater than 0`);
+    if (MARKET_REGIMES.some(({ value }) => (regime.transitions[value] || 0) < 0)) errors.push(`${regime.regime} transitions cannot be negative`);
+    if (Math.abs(transitionTotal - 100) > 0.01) errors.push(`${regime.regime} transitions must add up to 100%`);
+  });
+  return errors;
+};
+
+// Share of days spent in each regime in the long run (the chain's stationary distribution)
+export const getStationaryDistribution = (regimes: RegimeSettings[]): Record<MarketRegime, number> => {
+  let distribution = regimes.map(() => 1 / regimes.length);
+
+  for (let iteration = 0; iteration < 500; iteration++) {
+    const previous = distribution;
+    distribution = regimes.map(target => regimes.reduce(
+      (sum, source, index) => sum + previous[index] * ((source.transitions[target.regime] || 0) / 100),
+      0
+    ));
+  }
+
+  const total = distribution.reduce((sum, share) => sum + share, 0) || 1;
+  const result: Record<MarketRegime, number> = { favorable: 0, normal: 0, choppy: 0 };
+  regimes.forEach((regime, index) => {
+    result[regime.regime] = distribution[index] / total;
+  });
+  return result;
+};
+
+// Independent-trade settings with the same long-run win rate and average win size as the regime model
+export const getBaselineSettings = (params: SimulationSettings): SimulationSettings => {
+  const regimes = params.regimes || [];
+  const shares = getStationaryDistribution(regimes);
+  const winRate = regimes.reduce((sum, regime) => sum + shares[regime.regime] * regime.winRate, 0);
+  const weightedReward = regimes.reduce((sum, regime) => sum + shares[regime.regime] * regime.winRate * regime.riskRewardRatio, 0);
+
+  return {
+    ...params,
+    regimeModel: false,
+    winRate,
+    riskRewardRatio: winRate > 0 ? weightedReward / winRate : params.riskRewardRatio
+  };
+};
+
+export interface RegimeModel {
+  // Move to the regime for the next trading day; the first day starts in the normal regime
+  startDay: () => RegimeSettings;
+}
+
+export const createRegimeModel = (params: SimulationSettings, random: RandomSource): RegimeModel => {
+  const regimes = params.regimes || [];
+  let current = regimes.find(regime => regime.regime === 'normal') || regimes[0];
+  let started = false;
+
+  const startDay = () => {
+    if (!started) {
+      started = true;
+      return current;
+    }
+
+    let target = random() * 100;
+    for (const { value } of MARKET_REGIMES) {
+      target -= current.transitions[value] || 0;
+      if (target < 0) {
+        current = regimes.find(regime => regime.regime === value) || current;
+        break;
+      }
+    }
+    return current;
+  };
+
+  return { startDay };
+};
@@ -0,0 +1,184 @@
+import React from 'react';
+import { ComposedChart, Area, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { MonteCarloResult, MetricConfidenceInterval } from './types';
+
+interface MonteCarloResultsProps {
+  result: MonteCarloResult;
+  darkMode: boolean;
+}
+
+// Format a metric value according to its display format
+export const formatMetric = (value: number | null, format: MetricConfidenceInterval['format']): string => {
+  if (value === null) return 'N/A';
+  switch (format) {
+    case 'currency':
+      return `$${Math.round(value).toLocaleString()}`;
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'r':
+      return `${value.toFixed(2)}R`;
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+};
+
+const MonteCarloResults: React.FC<MonteCarloResultsProps> = ({ result, darkMode }) => {
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left"
+    : "py-2 px-4 border-b text-left";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700"
+    : "py-2 px-4 border-b";
+
+  const tableRowAltClass = darkMode
+    ? "bg-gray-850"
+    : "bg-gray-50";
+
+  const axisTick = { fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" };
+  const axisStroke = darkMode ? "#4B5563" : "#9CA3AF";
+  const tooltipStyle = {
+    backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+    borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+    color: darkMode ? "#F3F4F6" : "#111827"
+  };
+
+  const medianFinal = result.confidenceIntervals.find(ci => ci.key === 'finalEquity');
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-4">Monte Carlo Analysis ({result.paths.toLocaleString()} Paths, Seed {result.seed})</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-6">
+        <div className={cardClass}>
+          <h3 className={labelClass}>Risk of Ruin</h3>
+          <p className={`text-2xl font-bold ${result.riskOfRuin > 0 ? 'text-red-500' : 'text-green-500'}`}>
+            {result.riskOfRuin.toFixed(2)}%
+          </p>
+          <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {result.ruinedPaths.toLocaleString()} paths hit ${result.ruinLevel.toLocaleString()}
+          </p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Median Final Equity</h3>
+          <p className="text-2xl font-bold">{medianFinal ? formatMetric(medianFinal.p50, 'currency') : 'N/A'}</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>90% Final Equity Range</h3>
+          <p className="text-lg font-bold">
+            {medianFinal ? `${formatMetric(medianFinal.p5, 'currency')} – ${formatMetric(medianFinal.p95, 'currency')}` : 'N/A'}
+          </p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Profitable Paths</h3>
+          <p className="text-2xl font-bold">{((result.profitablePaths / result.paths) * 100).toFixed(1)}%</p>
+        </div>
+      </div>
+
+      {/* Percentile fan chart */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-4">Equity Percentile Fan Chart</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={result.percentileCurve}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="date"
+                tick={axisTick}
+                interval={Math.max(1, Math.floor(result.percentileCurve.length / 10))}
+                stroke={axisStroke}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+                stroke={axisStroke}
+              />
+              <Tooltip
+                formatter={(value: number | number[], name: string) => [
+                  Array.isArray(value)
+                    ? value.map(v => '$' + Math.round(v).toLocaleString()).join(' – ')
+                    : '$' + Math.round(value).toLocaleString(),
+                  name
+                ]}
+                contentStyle={tooltipStyle}
+              />
+              <Legend />
+              <Area type="monotone" dataKey="outerBand" name="5th–95th" stroke="none" fill="#10B981" fillOpacity={0.15} />
+              <Area type="monotone" dataKey="innerBand" name="25th–75th" stroke="none" fill="#10B981" fillOpacity={0.3} />
+              <Line type="monotone" dataKey="p50" name="Median" stroke="#10B981" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Final equity histogram */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-4">Final Equity Distribution</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={result.finalEquityHistogram}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+              <XAxis dataKey="label" tick={axisTick} stroke={axisStroke} />
+              <YAxis tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }} stroke={axisStroke} allowDecimals={false} />
+              <Tooltip
+                formatter={(value: number) => [value.toLocaleString(), 'Paths']}
+                contentStyle={tooltipStyle}
+              />
+              <Bar dataKey="count" fill="#3B82F6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Confidence intervals */}
+      <div className={`${cardClass} mb-6`}>
+        <h3 className="text-lg font-bold mb-4">Confidence Intervals</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={tableHeaderClass}>Metric</th>
+                <th className={tableHeaderClass}>5th Percentile</th>
+                <th className={tableHeaderClass}>Median</th>
+                <th className={tableHeaderClass}>95th Percentile</th>
+                <th className={tableHeaderClass}>Mean</th>
+                <th className={tableHeaderClass} title="Paths where the metric had a value">Paths</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.confidenceIntervals.map((ci, index) => (
+                <tr key={ci.key} className={index % 2 === 1 ? tableRowAltClass : ''}>
+                  <td className={tableCellClass}>{ci.label}</td>
+                  <td className={tableCellClass}>{formatMetric(ci.p5, ci.format)}</td>
+                  <td className={tableCellClass}>{formatMetric(ci.p50, ci.format)}</td>
+                  <td className={tableCellClass}>{formatMetric(ci.p95, ci.format)}</td>
+                  <td className={tableCellClass}>{formatMetric(ci.mean, ci.format)}</td>
+                  <td className={`${tableCellClass} ${ci.paths < result.paths ? 'text-amber-500' : ''}`}>{ci.paths.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className={`mt-3 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          A ratio with nothing to divide by on a path, like the profit factor of a path without losing trades, leaves that path out; Paths shows how many were used
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MonteCarloResults;
@@ -0,0 +1,314 @@
+import { SimulationSettings, SimulationStats, MonteCarloResult, MetricConfidenceInterval, PercentileCurvePoint, HistogramBin, ChallengeBatchResult, ChallengeOutcome, RegimeComparison, RegimeComparisonMetrics } from './types';
+import { runSimulation, generateSimulationDates } from './simulation-engine';
+import { createSeededRandom, deriveSeed, generateSeed } from './random';
+import { DEFAULT_CHALLENGE_ATTEMPTS, MAX_CHALLENGE_ATTEMPTS } from './prop-challenge';
+import { REGIME_COMPARISON_PATHS, getBaselineSettings } from './market-regimes';
+import { PERFORMANCE_METRICS } from './performance-metrics';
+import { isCashFlowEnabled } from './cash-flows';
+
+export const DEFAULT_MONTE_CARLO_PATHS = 1000;
+export const MAX_MONTE_CARLO_PATHS = 10000;
+const HISTOGRAM_BINS = 30;
+
+export interface MonteCarloMetric extends Pick<MetricConfidenceInterval, 'key' | 'label' | 'format'> {
+  // The path's value, or null when it is undefined for that path
+  value: (stats: SimulationStats) => number | null;
+  // Only summarized for settings where this returns true
+  enabled?: (params: SimulationSettings) => boolean;
+}
+
+const statsMetric = (key: keyof SimulationStats, label: string, format: MetricConfidenceInterval['format']): MonteCarloMetric => ({
+  key,
+  label,
+  format,
+  value: stats => stats[key] as number
+});
+
+// Per-run result stats summarized with confidence intervals across all paths
+export const MONTE_CARLO_METRICS: MonteCarloMetric[] = [
+  statsMetric('finalEquity', 'Final Equity', 'currency'),
+  statsMetric('totalProfit', 'Total Profit', 'currency'),
+  statsMetric('grossProfit', 'Gross Profit', 'currency'),
+  statsMetric('totalFees', 'Total Fees', 'currency'),
+  statsMetric('totalSlippage', 'Total Slippage', 'currency'),
+  { key: 'feesPercentOfGross', label: 'Fees % of Gross Profit', format: 'percent', value: stats => (stats.grossProfit > 0 ? stats.feesPercentOfGross : null) },
+  statsMetric('totalTaxPaid', 'Total Tax Paid', 'currency'),
+  statsMetric('afterTaxProfit', 'After-Tax Profit', 'currency'),
+  statsMetric('winRate', 'Win Rate', 'percent'),
+  statsMetric('averageWin', 'Avg Win', 'currency'),
+  statsMetric('averageLoss', 'Avg Loss', 'currency'),
+  statsMetric('averageWinR', 'Avg Win (R)', 'r'),
+  statsMetric('averageLossR', 'Avg Loss (R)', 'r'),
+  statsMetric('avgRPerDay', 'Avg R Per Day', 'r'),
+  statsMetric('avgRPerWeek', 'Avg R Per Week', 'r'),
+  statsMetric('avgTradesPerDay', 'Avg Trades Per Day', 'number'),
+  statsMetric('totalTrades', 'Total Trades', 'number'),
+  statsMetric('breakevenTrades', 'Breakeven Trades', 'number'),
+  statsMetric('outsizedLosses', 'Slipped Stops', 'number'),
+  statsMetric('maxWinStreak', 'Max Win Streak', 'number'),
+  statsMetric('maxLossStreak', 'Max Loss Streak', 'number'),
+  statsMetric('maxDrawdown', 'Max Drawdown', 'percent'),
+  statsMetric('averageRiskPerTrade', 'Avg Risk Per Trade', 'currency'),
+  ...PERFORMANCE_METRICS.map((metric): MonteCarloMetric => ({
+    key: `performance.${metric.key}`,
+    label: metric.label,
+    format: metric.format === 'ratio' ? 'number' : metric.format,
+    value: stats => stats.performance[metric.key]
+  })),
+  {
+    key: 'cashFlows.timeWeightedReturn',
+    label: 'Time-Weighted Return',
+    format: 'percent',
+    value: stats => stats.cashFlows.timeWeightedReturn,
+    enabled: isCashFlowEnabled
+  }
+];
+
+// Percentile of an ascending sorted array using linear interpolation
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+// Bucket values into equal-width bins between their min and max
+export const buildHistogram = (values: ArrayLike<number>, binCount: number = HISTOGRAM_BINS): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    min = Math.min(min, values[i]);
+    max = Math.max(max, values[i]);
+  }
+
+  // All values identical - a single bin holds everything
+  if (min === max) {
+    return [{ label: `$${Math.round(min).toLocaleString()}`, rangeStart: min, rangeEnd: max, count: values.length }];
+  }
+
+  const binWidth = (max - min) / binCount;
+  const bins: HistogramBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    const rangeStart = min + i * binWidth;
+    bins.push({
+      label: `$${Math.round(rangeStart).toLocaleString()}`,
+      rangeStart,
+      rangeEnd: rangeStart + binWidth,
+      count: 0
+    });
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    const binIndex = Math.min(binCount - 1, Math.floor((values[i] - min) / binWidth));
+    bins[binIndex].count++;
+  }
+
+  return bins;
+};
+
+// Run many independent paths of the same settings and summarize the distribution
+export const runMonteCarlo = (
+  params: SimulationSettings,
+  onProgress?: (completedPaths: number, totalPaths: number) => void
+): MonteCarloResult => {
+  const paths = params.monteCarloPaths || DEFAULT_MONTE_CARLO_PATHS;
+  const pathCount = Math.max(1, Math.min(MAX_MONTE_CARLO_PATHS, Math.floor(paths)));
+  const ruinLevel = params.ruinLevel ?? 0;
+  const seed = params.seed ?? generateSeed();
+  const dates = generateSimulationDates(params);
+
+  // Equity values stored per day so percentiles can be taken across paths
+  const pointCount = dates.length > 0 ? dates.length + 1 : 0;
+  const equityByDay: Float64Array[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    equityByDay.push(new Float64Array(pathCount));
+  }
+
+  // Labels come from the full calendar, since a challenge path can stop before the last date
+  const equityLabels = dates.length > 0 ? [dates[0].fullDate, ...dates.map(date => date.fullDate)] : [];
+  const finalEquities = new Float64Array(pathCount);
+  const metrics = MONTE_CARLO_METRICS.filter(metric => !metric.enabled || metric.enabled(params));
+  // Values are packed at the front of each array; the count says how many paths had one
+  const metricValues = metrics.map(() => new Float64Array(pathCount));
+  const metricCounts = metrics.map(() => 0);
+  let ruinedPaths = 0;
+  let profitablePaths = 0;
+
+  for (let path = 0; path < pathCount; path++) {
+    const random = createSeededRandom(deriveSeed(seed, path));
+    const stats: SimulationStats = runSimulation(params, { dates, random, recordTrades: false });
+    let ruined = false;
+
+    stats.equityCurve.forEach((point, day) => {
+      equityByDay[day][path] = point.equity;
+      if (point.equity <= ruinLevel) {
+        ruined = true;
+      }
+    });
+    // A path that ended early holds its last equity for the rest of the period
+    for (let day = stats.equityCurve.length; day < pointCount; day++) {
+      equityByDay[day][path] = stats.finalEquity;
+    }
+    finalEquities[path] = stats.finalEquity;
+
+    if (ruined) {
+      ruinedPaths++;
+    }
+    if (stats.finalEquity > stats.initialEquity) {
+      profitablePaths++;
+    }
+
+    metrics.forEach((metric, index) => {
+      const value = metric.value(stats);
+      // Ratios with a zero denominator have no value on some paths; those paths are left out
+      if (value === null || !Number.isFinite(value)) return;
+      metricValues[index][metricCounts[index]++] = value;
+    });
+
+    onProgress?.(path + 1, pathCount);
+  }
+
+  // Percentile bands of equity for every day
+  const percentileCurve: PercentileCurvePoint[] = equityByDay.map((values, day) => {
+    values.sort();
+    const p5 = percentile(values, 5);
+    const p25 = percentile(values, 25);
+    const p50 = percentile(values, 50);
+    const p75 = percentile(values, 75);
+    const p95 = percentile(values, 95);
+    return {
+      date: equityLabels[day],
+      p5,
+      p25,
+      p50,
+      p75,
+      p95,
+      outerBand: [p5, p95],
+      innerBand: [p25, p75]
+    };
+  });
+
+  const confidenceIntervals: MetricConfidenceInterval[] = metrics.map(({ key, label, format }, index) => {
+    const values = metricValues[index].subarray(0, metricCounts[index]).sort();
+    if (values.length === 0) {
+      return { key, label, format, mean: null, p5: null, p50: null, p95: null, paths: 0 };
+    }
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[i];
+    }
+    return {
+      key,
+      label,
+      format,
+      paths: values.length,
+      mean: sum / values.length,
+      p5: percentile(values, 5),
+      p50: percentile(values, 50),
+      p95: percentile(values, 95)
+    };
+  });
+
+  return {
+    paths: pathCount,
+    seed,
+    ruinLevel,
+    ruinedPaths,
+    riskOfRuin: (ruinedPaths / pathCount) * 100,
+    profitablePaths,
+    percentileCurve,
+    finalEquityHistogram: buildHistogram(finalEquities),
+    confidenceIntervals
+  };
+};
+
+// Repeat a prop firm challenge many times with independent trade sequences
+export const runChallengeBatch = (
+  params: SimulationSettings,
+  onProgress?: (completedAttempts: number, totalAttempts: number) => void
+): ChallengeBatchResult => {
+  const attempts = Math.max(1, Math.min(MAX_CHALLENGE_ATTEMPTS, Math.floor(params.challengeAttempts || DEFAULT_CHALLENGE_ATTEMPTS)));
+  const seed = params.seed ?? generateSeed();
+  const dates = generateSimulationDates(params);
+
+  const outcomeCounts: Record<ChallengeOutcome, number> = {
+    'passed': 0,
+    'failed-max-loss': 0,
+    'failed-daily-loss': 0,
+    'failed-time-limit': 0
+  };
+  let daysToPass = 0;
+  let daysToFail = 0;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const random = createSeededRandom(deriveSeed(seed, attempt));
+    const result = runSimulation(params, { dates, random, recordTrades: false }).challenge;
+
+    if (result) {
+      outcomeCounts[result.outcome]++;
+      if (result.passed) {
+        daysToPass += result.tradingDays;
+      } else {
+        daysToFail += result.tradingDays;
+      }
+    }
+
+    onProgress?.(attempt + 1, attempts);
+  }
+
+  const passed = outcomeCounts['passed'];
+  const failed = attempts - passed;
+
+  return {
+    attempts,
+    seed,
+    passed,
+    passProbability: (passed / attempts) * 100,
+    averageDaysToPass: passed > 0 ? daysToPass / passed : 0,
+    averageDaysToFail: failed > 0 ? daysToFail / failed : 0,
+    outcomeCounts
+  };
+};
+
+// Compare the regime model against independent trades with the same long-run win rate and R:R.
+// Both batches use the same path seeds, so the only difference is how wins and losses cluster.
+export const runRegimeComparison = (
+  params: SimulationSettings,
+  onProgress?: (completedPaths: number, totalPaths: number) => void
+): RegimeComparison => {
+  const paths = REGIME_COMPARISON_PATHS;
+  const seed = params.seed ?? generateSeed();
+  const dates = generateSimulationDates(params);
+  const baselineParams = getBaselineSettings(params);
+
+  const averageMetrics = (settings: SimulationSettings, progressOffset: number): RegimeComparisonMetrics => {
+    const totals: RegimeComparisonMetrics = { maxWinStreak: 0, maxLossStreak: 0, maxDrawdown: 0, finalEquity: 0 };
+    for (let path = 0; path < paths; path++) {
+      const stats = runSimulation(settings, { dates, random: createSeededRandom(deriveSeed(seed, path)), recordTrades: false });
+      totals.maxWinStreak += stats.maxWinStreak;
+      totals.maxLossStreak += stats.maxLossStreak;
+      totals.maxDrawdown += stats.maxDrawdown;
+      totals.finalEquity += stats.finalEquity;
+      onProgress?.(progressOffset + path + 1, paths * 2);
+    }
+    return {
+      maxWinStreak: totals.maxWinStreak / paths,
+      maxLossStreak: totals.maxLossStreak / paths,
+      maxDrawdown: totals.maxDrawdown / paths,
+      finalEquity: totals.finalEquity / paths
+    };
+  };
+
+  return {
+    paths,
+    seed,
+    baselineWinRate: baselineParams.winRate,
+    baselineRiskRewardRatio: baselineParams.riskRewardRatio,
+    regime: averageMetrics(params, 0),
+    baseline: averageMetrics(baselineParams, paths)
+  };
+};
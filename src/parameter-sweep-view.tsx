@@ -0,0 +1,211 @@
+import React, { useState, useMemo } from 'react';
+import { Grid, AlertCircle } from 'lucide-react';
+import { SimulationSettings, SweepAxis, SweepMetric, SweepRequest, SweepResult, SweepParameter } from './types';
+import { SWEEP_PARAMETERS, SWEEP_METRICS, DEFAULT_SWEEP_PATHS, MAX_SWEEP_PATHS, createSweepAxis, getAxisValues, validateSweep } from './parameter-sweep';
+import { formatMetric } from './monte-carlo-results';
+
+interface ParameterSweepViewProps {
+  params: SimulationSettings;
+  result: SweepResult | null;
+  onRun: (sweep: SweepRequest) => void;
+  onOpenCell: (x: number, y: number) => void;
+  running: boolean;
+}
+
+const parameterLabel = (parameter: SweepParameter): string => {
+  return SWEEP_PARAMETERS.find(option => option.value === parameter)?.label || parameter;
+};
+
+// Red for the worst cell through yellow to green for the best
+const heatColor = (score: number): string => `hsl(${Math.round(score * 120)}, 70%, 45%)`;
+
+const ParameterSweepView: React.FC<ParameterSweepViewProps> = ({ params, result, onRun, onOpenCell, running }) => {
+  const darkMode = !!params.darkMode;
+  const [xAxis, setXAxis] = useState<SweepAxis>(() => result?.xAxis || createSweepAxis('winRate'));
+  const [yAxis, setYAxis] = useState<SweepAxis>(() => result?.yAxis || createSweepAxis('riskRewardRatio'));
+  const [pathsPerCell, setPathsPerCell] = useState(result?.pathsPerCell || DEFAULT_SWEEP_PATHS);
+  const [metric, setMetric] = useState<SweepMetric>('medianFinalEquity');
+
+  const request: SweepRequest = { xAxis, yAxis, pathsPerCell };
+  const errors = validateSweep(params, request);
+  const cellCount = getAxisValues(xAxis).length * getAxisValues(yAxis).length;
+  const metricConfig = SWEEP_METRICS.find(option => option.value === metric) || SWEEP_METRICS[0];
+
+  // Cell scores from 0 (worst) to 1 (best) for the chosen metric
+  const scores = useMemo(() => {
+    if (!result) return [];
+    const values = result.cells.map(cell => cell[metric]);
+    const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+    const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+    return values.map(value => {
+      if (max === min) return 0.5;
+      const score = (value - min) / (max - min);
+      return metricConfig.better === 'higher' ? score : 1 - score;
+    });
+  }, [result, metric, metricConfig]);
+
+  const updateAxis = (axis: 'x' | 'y', changes: Partial<SweepAxis>) => {
+    const setAxis = axis === 'x' ? setXAxis : setYAxis;
+    const current = axis === 'x' ? xAxis : yAxis;
+    // A new parameter starts from its own range
+    setAxis(changes.parameter ? createSweepAxis(changes.parameter) : { ...current, ...changes });
+  };
+
+  // Dynamic classes based on dark mode
+  const containerClass = darkMode
+    ? "p-4 bg-gray-900 rounded-lg shadow-sm text-white"
+    : "p-4 bg-gray-50 rounded-lg shadow-sm";
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "block text-sm font-medium text-gray-300"
+    : "block text-sm font-medium text-gray-700";
+
+  const inputClass = darkMode
+    ? "mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    : "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  const axisControls = (axis: 'x' | 'y', value: SweepAxis, title: string) => (
+    <div>
+      <h3 className="text-sm font-bold mb-2">{title}</h3>
+      <label htmlFor={`sweep-${axis}-parameter`} className={labelClass}>Parameter</label>
+      <select
+        id={`sweep-${axis}-parameter`}
+        className={inputClass}
+        value={value.parameter}
+        onChange={(e) => updateAxis(axis, { parameter: e.target.value as SweepParameter })}
+      >
+        {SWEEP_PARAMETERS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-3 gap-2 mt-2">
+        {(['from', 'to', 'step'] as const).map(field => (
+          <div key={field}>
+            <label htmlFor={`sweep-${axis}-${field}`} className={labelClass}>{field[0].toUpperCase() + field.slice(1)}</label>
+            <input
+              type="number"
+              id={`sweep-${axis}-${field}`}
+              step="any"
+              className={inputClass}
+              value={value[field]}
+              onChange={(e) => updateAxis(axis, { [field]: parseFloat(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={containerClass}>
+      <h2 className="text-xl font-bold mb-4">Parameter Sweep</h2>
+
+      {/* Grid setup */}
+      <div className={`${cardClass} mb-6`}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+          {axisControls('x', xAxis, 'Columns')}
+          {axisControls('y', yAxis, 'Rows')}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+          <div>
+            <label htmlFor="sweep-paths" className={labelClass}>Paths per Cell</label>
+            <input
+              type="number"
+              id="sweep-paths"
+              min="1"
+              max={MAX_SWEEP_PATHS}
+              step="1"
+              className={inputClass}
+              value={pathsPerCell}
+              onChange={(e) => setPathsPerCell(parseInt(e.target.value, 10))}
+            />
+            <p className={`mt-1 ${subTextClass}`}>
+              Every cell runs the same seeded paths; the other settings come from the settings page
+            </p>
+          </div>
+        </div>
+        {errors.length > 0 && (
+          <div className="mb-4 flex items-center text-sm text-red-500">
+            <AlertCircle size={16} className="mr-1" />
+            {errors[0]}
+          </div>
+        )}
+        <button
+          type="button"
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => onRun(request)}
+          disabled={errors.length > 0 || running}
+        >
+          <Grid size={18} className="mr-2" />
+          Run {cellCount > 0 ? `${cellCount} Cells` : 'Sweep'}
+        </button>
+      </div>
+
+      {/* Heatmap */}
+      {result && (
+        <div className={`${cardClass} overflow-x-auto`}>
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+            <h3 className="text-lg font-bold">{metricConfig.label}</h3>
+            <select
+              className={`${inputClass} w-auto`}
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as SweepMetric)}
+              aria-label="Metric"
+            >
+              {SWEEP_METRICS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <p className={`${subTextClass} mb-4`}>
+            {result.pathsPerCell.toLocaleString()} paths per cell, seed {result.seed}
+            {metric === 'riskOfRuin' && `, ruin at $${result.ruinLevel.toLocaleString()}`}
+            . Click a cell to open its full results
+          </p>
+          <table className="text-sm border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th className={`${subTextClass} px-2 text-right`}>
+                  {parameterLabel(result.yAxis.parameter)} ↓ / {parameterLabel(result.xAxis.parameter)} →
+                </th>
+                {result.xValues.map(x => (
+                  <th key={x} className="px-2 font-medium">{x}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.yValues.map((y, row) => (
+                <tr key={y}>
+                  <th className="px-2 font-medium text-right">{y}</th>
+                  {result.xValues.map((x, column) => {
+                    const index = row * result.xValues.length + column;
+                    const cell = result.cells[index];
+                    return (
+                      <td
+                        key={x}
+                        className="px-2 py-1 text-center text-white rounded cursor-pointer hover:opacity-80 whitespace-nowrap"
+                        style={{ backgroundColor: heatColor(scores[index]) }}
+                        title={`${parameterLabel(result.xAxis.parameter)} ${x}, ${parameterLabel(result.yAxis.parameter)} ${y}`}
+                        onClick={() => !running && onOpenCell(x, y)}
+                      >
+                        {formatMetric(cell[metric], metricConfig.format)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterSweepView;
@@ -0,0 +1,142 @@
+import { SimulationSettings, SweepParameter, SweepMetric, SweepAxis, SweepRequest, SweepResult, SweepCell, MetricConfidenceInterval } from './types';
+import { runSimulation, generateSimulationDates, validateSettings } from './simulation-engine';
+import { createSeededRandom, deriveSeed, generateSeed } from './random';
+import { percentile } from './monte-carlo';
+
+export const DEFAULT_SWEEP_PATHS = 100;
+export const MAX_SWEEP_PATHS = 1000;
+export const MAX_SWEEP_CELLS = 400;
+
+// Each parameter starts from a range that makes sense for it
+export const SWEEP_PARAMETERS: { value: SweepParameter; label: string; integer: boolean; range: Omit<SweepAxis, 'parameter'> }[] = [
+  { value: 'winRate', label: 'Win Rate (%)', integer: false, range: { from: 45, to: 65, step: 5 } },
+  { value: 'riskRewardRatio', label: 'Risk/Reward Ratio', integer: false, range: { from: 0.8, to: 3, step: 0.2 } },
+  { value: 'riskPerTrade', label: 'Risk per Trade ($)', integer: false, range: { from: 100, to: 500, step: 100 } },
+  { value: 'tradesPerDay', label: 'Trades per Day', integer: true, range: { from: 1, to: 8, step: 1 } },
+  { value: 'positionSizingPercent', label: 'Risk per Trade (% of Equity)', integer: false, range: { from: 0.5, to: 3, step: 0.5 } },
+  { value: 'kellyFraction', label: 'Kelly Fraction', integer: false, range: { from: 0.1, to: 1, step: 0.1 } },
+  { value: 'breakevenRate', label: 'Breakeven Trades (%)', integer: false, range: { from: 0, to: 20, step: 5 } },
+  { value: 'feesPerTrade', label: 'Fees per Trade ($)', integer: false, range: { from: 0, to: 10, step: 2 } },
+  { value: 'averageSlippageR', label: 'Avg Slippage (R)', integer: false, range: { from: 0, to: 0.3, step: 0.05 } }
+];
+
+export const createSweepAxis = (parameter: SweepParameter): SweepAxis => {
+  const option = SWEEP_PARAMETERS.find(candidate => candidate.value === parameter) || SWEEP_PARAMETERS[0];
+  return { parameter: option.value, ...option.range };
+};
+
+export const SWEEP_METRICS: { value: SweepMetric; label: string; format: MetricConfidenceInterval['format']; better: 'higher' | 'lower' }[] = [
+  { value: 'medianFinalEquity', label: 'Median Final Equity', format: 'currency', better: 'higher' },
+  { value: 'medianMaxDrawdown', label: 'Median Max Drawdown', format: 'percent', better: 'lower' },
+  { value: 'riskOfRuin', label: 'Probability of Ruin', format: 'percent', better: 'lower' },
+  { value: 'expectancy', label: 'Expectancy per Trade', format: 'r', better: 'higher' }
+];
+
+// Values along an axis, both ends included; rounded so steps like 0.1 don't drift
+export const getAxisValues = (axis: SweepAxis): number[] => {
+  if (!(axis.step > 0) || !Number.isFinite(axis.from) || !Number.isFinite(axis.to) || axis.to < axis.from) return [];
+  const count = Math.floor((axis.to - axis.from) / axis.step + 1e-9) + 1;
+  const values: number[] = [];
+  for (let i = 0; i < count && values.length <= MAX_SWEEP_CELLS; i++) {
+    values.push(Number((axis.from + i * axis.step).toFixed(6)));
+  }
+  return values;
+};
+
+// Settings for one cell of the grid
+export const getSweepCellSettings = (
+  params: SimulationSettings,
+  sweep: Pick<SweepRequest, 'xAxis' | 'yAxis'>,
+  x: number,
+  y: number
+): SimulationSettings => ({
+  ...params,
+  [sweep.xAxis.parameter]: x,
+  [sweep.yAxis.parameter]: y
+});
+
+// Check a sweep before running it; returns a list of problems
+export const validateSweep = (params: SimulationSettings, sweep: SweepRequest): string[] => {
+  const errors: string[] = [];
+  if (sweep.xAxis.parameter === sweep.yAxis.parameter) errors.push('Pick two different parameters');
+  [sweep.xAxis, sweep.yAxis].forEach(axis => {
+    const parameter = SWEEP_PARAMETERS.find(option => option.value === axis.parameter);
+    const values = getAxisValues(axis);
+    if (values.length === 0) {
+      errors.push(`${parameter?.label || axis.parameter}: the range needs a positive step and "to" at or above "from"`);
+    } else if (parameter?.integer && values.some(value => !Number.isInteger(value))) {
+      errors.push(`${parameter.label} only takes whole numbers`);
+    }
+  });
+  const xValues = getAxisValues(sweep.xAxis);
+  const yValues = getAxisValues(sweep.yAxis);
+  const cells = xValues.length * yValues.length;
+  if (cells > MAX_SWEEP_CELLS) errors.push(`The grid has ${cells} cells; narrow the ranges or widen the steps to stay within ${MAX_SWEEP_CELLS}`);
+  if (!(sweep.pathsPerCell >= 1 && sweep.pathsPerCell <= MAX_SWEEP_PATHS)) errors.push(`Paths per cell must be between 1 and ${MAX_SWEEP_PATHS}`);
+  if (errors.length > 0) return errors;
+
+  // Settings limits are checked at the corners of the grid, which hold the extremes of both ranges
+  const corners = [[0, 0], [0, yValues.length - 1], [xValues.length - 1, 0], [xValues.length - 1, yValues.length - 1]];
+  corners.forEach(([xIndex, yIndex]) => {
+    validateSettings(getSweepCellSettings(params, sweep, xValues[xIndex], yValues[yIndex])).forEach(error => {
+      if (!errors.includes(error)) errors.push(error);
+    });
+  });
+  return errors;
+};
+
+// Run every combination of the two parameters. Each cell runs the same seeded paths, and every kind of
+// random draw has its own stream, so neighbouring cells see the same rolls for each scheduled trade.
+export const runParameterSweep = (
+  params: SimulationSettings,
+  sweep: SweepRequest,
+  onProgress?: (completedCells: number, totalCells: number) => void
+): SweepResult => {
+  const xValues = getAxisValues(sweep.xAxis);
+  const yValues = getAxisValues(sweep.yAxis);
+  const pathsPerCell = Math.max(1, Math.min(MAX_SWEEP_PATHS, Math.floor(sweep.pathsPerCell)));
+  const seed = params.seed ?? generateSeed();
+  const ruinLevel = params.ruinLevel ?? 0;
+  const dates = generateSimulationDates(params);
+  const totalCells = xValues.length * yValues.length;
+
+  const finalEquities = new Float64Array(pathsPerCell);
+  const maxDrawdowns = new Float64Array(pathsPerCell);
+  const cells: SweepCell[] = [];
+
+  yValues.forEach(y => {
+    xValues.forEach(x => {
+      const cellParams = getSweepCellSettings(params, sweep, x, y);
+      let ruinedPaths = 0;
+      let totalR = 0;
+      let totalTrades = 0;
+
+      for (let path = 0; path < pathsPerCell; path++) {
+        const random = createSeededRandom(deriveSeed(seed, path));
+        const stats = runSimulation(cellParams, { dates, random, recordTrades: false });
+        finalEquities[path] = stats.finalEquity;
+        maxDrawdowns[path] = stats.maxDrawdown;
+        if (stats.equityCurve.some(point => point.equity <= ruinLevel)) ruinedPaths++;
+        // Average R per day over average trades per day gives R per trade
+        if (stats.avgTradesPerDay > 0) {
+          totalR += (stats.avgRPerDay / stats.avgTradesPerDay) * stats.totalTrades;
+          totalTrades += stats.totalTrades;
+        }
+      }
+
+      finalEquities.sort();
+      maxDrawdowns.sort();
+      cells.push({
+        x,
+        y,
+        medianFinalEquity: percentile(finalEquities, 50),
+        medianMaxDrawdown: percentile(maxDrawdowns, 50),
+        riskOfRuin: (ruinedPaths / pathsPerCell) * 100,
+        expectancy: totalTrades > 0 ? totalR / totalTrades : 0
+      });
+      onProgress?.(cells.length, totalCells);
+    });
+  });
+
+  return { ...sweep, pathsPerCell, seed, ruinLevel, xValues, yValues, cells };
+};
@@ -0,0 +1,198 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BreakdownPeriod, SimulationStats } from './types';
+import { BREAKDOWN_PERIODS } from './period-breakdowns';
+import { TradeLogFilter } from './trade-log';
+
+interface PerformanceBreakdownProps {
+  stats: SimulationStats;
+  darkMode: boolean;
+  // Clicking a week or month row shows its trades
+  onShowTrades: (period: Pick<TradeLogFilter, 'month' | 'week'>) => void;
+}
+
+interface BreakdownBar {
+  period: string;
+  profitLoss: number;
+}
+
+const formatPercent = (value: number | null): string => (value === null ? 'N/A' : `${value.toFixed(2)}%`);
+
+const PerformanceBreakdown: React.FC<PerformanceBreakdownProps> = ({ stats, darkMode, onShowTrades }) => {
+  // Multi-year runs open on the yearly view rather than a long list of months
+  const [period, setPeriod] = useState<BreakdownPeriod>(stats.yearlyBreakdown.length > 1 ? 'year' : 'month');
+
+  const bars = useMemo<BreakdownBar[]>(() => {
+    switch (period) {
+      case 'week':
+        return stats.weeklyBreakdown.map(week => ({ period: week.week, profitLoss: week.profitLoss }));
+      case 'month':
+        return stats.monthlyBreakdown.map(month => ({ period: month.month, profitLoss: month.profitLoss }));
+      case 'quarter':
+        return stats.quarterlyBreakdown;
+      default:
+        return stats.yearlyBreakdown;
+    }
+  }, [period, stats]);
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const inputClass = darkMode
+    ? "px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+    : "px-2 py-1 bg-white border border-gray-300 rounded-md text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left"
+    : "py-2 px-4 border-b text-left";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700"
+    : "py-2 px-4 border-b";
+
+  const tableRowAltClass = darkMode
+    ? "bg-gray-850"
+    : "bg-gray-50";
+
+  const profitClass = (value: number) => (value >= 0 ? 'text-green-500' : 'text-red-500');
+  const periodLabel = BREAKDOWN_PERIODS.find(option => option.value === period)?.label;
+
+  // Weeks and months keep their original columns and link to the trade log
+  const calendarRows = period === 'week'
+    ? stats.weeklyBreakdown.map(week => ({ label: week.week, filter: { month: '', week: week.week }, ...week }))
+    : stats.monthlyBreakdown.map(month => ({ label: month.month, filter: { month: month.month, week: '' }, ...month }));
+
+  return (
+    <div className={`${cardClass} mb-6`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold">{periodLabel} Performance Breakdown</h3>
+        <select
+          className={inputClass}
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as BreakdownPeriod)}
+          aria-label="Breakdown period"
+        >
+          {BREAKDOWN_PERIODS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-48 mb-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={bars}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+            <XAxis
+              dataKey="period"
+              tick={{ fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" }}
+              stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+            />
+            <YAxis
+              tickFormatter={(value: number) => `$${Math.round(value).toLocaleString()}`}
+              tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+              stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+            />
+            <Tooltip
+              formatter={(value: number) => ['$' + Math.round(value).toLocaleString(), 'Profit/Loss']}
+              contentStyle={{
+                backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                color: darkMode ? "#F3F4F6" : "#111827"
+              }}
+            />
+            <Bar dataKey="profitLoss">
+              {bars.map(bar => (
+                <Cell key={bar.period} fill={bar.profitLoss >= 0 ? "#10B981" : "#EF4444"} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        {period === 'quarter' || period === 'year' ? (
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={tableHeaderClass}>{period === 'year' ? 'Year' : 'Quarter'}</th>
+                <th className={tableHeaderClass}>Profit/Loss</th>
+                <th className={tableHeaderClass}>Return</th>
+                <th className={tableHeaderClass}>Win Rate</th>
+                <th className={tableHeaderClass}>Max Drawdown</th>
+                <th className={tableHeaderClass} title="Profit/loss change vs the same period a year earlier">YoY Growth</th>
+                <th className={tableHeaderClass}>Trades</th>
+                <th className={tableHeaderClass}>Fees & Slippage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(period === 'year' ? stats.yearlyBreakdown : stats.quarterlyBreakdown).map((row, index) => (
+                <tr key={row.period} className={index % 2 === 1 ? tableRowAltClass : ''}>
+                  <td className={tableCellClass}>{row.period}</td>
+                  <td className={tableCellClass}>
+                    <span className={profitClass(row.profitLoss)}>${Math.round(row.profitLoss).toLocaleString()}</span>
+                  </td>
+                  <td className={tableCellClass}>
+                    <span className={profitClass(row.returnPercent)}>{formatPercent(row.returnPercent)}</span>
+                  </td>
+                  <td className={tableCellClass}>
+                    <span className={row.winRate >= 50 ? 'text-green-500' : 'text-red-500'}>{formatPercent(row.winRate)}</span>
+                  </td>
+                  <td className={`${tableCellClass} ${row.maxDrawdown > 0 ? 'text-red-500' : ''}`}>{formatPercent(row.maxDrawdown)}</td>
+                  <td className={tableCellClass}>
+                    <span className={row.yearOverYearGrowth === null ? '' : profitClass(row.yearOverYearGrowth)}>
+                      {formatPercent(row.yearOverYearGrowth)}
+                    </span>
+                  </td>
+                  <td className={tableCellClass}>{row.trades}</td>
+                  <td className={tableCellClass}>${Math.round(row.fees).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={tableHeaderClass}>{period === 'week' ? 'Week' : 'Month'}</th>
+                <th className={tableHeaderClass}>Win Rate</th>
+                <th className={tableHeaderClass}>Profit/Loss</th>
+                <th className={tableHeaderClass}>Trades</th>
+                <th className={tableHeaderClass}>Fees & Slippage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {calendarRows.map((row, index) => (
+                <tr
+                  key={row.label}
+                  className={`cursor-pointer ${index % 2 === 1 ? tableRowAltClass : ''}`}
+                  onClick={() => onShowTrades(row.filter)}
+                  title={`Show the trades for this ${period}`}
+                >
+                  <td className={tableCellClass}>{row.label}</td>
+                  <td className={tableCellClass}>
+                    <span className={parseFloat(row.winRate || '0') >= 50 ? 'text-green-500' : 'text-red-500'}>
+                      {row.winRate}%
+                    </span>
+                  </td>
+                  <td className={tableCellClass}>
+                    <span className={profitClass(row.profitLoss)}>
+                      ${Math.round(row.profitLoss).toLocaleString()}
+                    </span>
+                  </td>
+                  <td className={tableCellClass}>{row.trades}</td>
+                  <td className={tableCellClass}>${Math.round(row.fees).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceBreakdown;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { PerformanceMetrics } from './types';
+import { PERFORMANCE_METRICS, formatPerformanceMetric } from './performance-metrics';
+
+interface PerformanceMetricsResultsProps {
+  metrics: PerformanceMetrics;
+  darkMode: boolean;
+}
+
+// Metrics whose sign says whether the run made money
+const SIGNED_METRICS: (keyof PerformanceMetrics)[] = ['expectancy', 'expectancyR', 'cagr'];
+
+const PerformanceMetricsResults: React.FC<PerformanceMetricsResultsProps> = ({ metrics, darkMode }) => {
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm inline-flex items-center"
+    : "text-gray-500 text-sm inline-flex items-center";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-1">Performance Metrics</h2>
+      <p className={`${subTextClass} mb-4`}>Hover over a metric for its definition</p>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {PERFORMANCE_METRICS.map(metric => {
+          const value = metrics[metric.key];
+          const signed = SIGNED_METRICS.includes(metric.key) && value !== null && value !== 0;
+          return (
+            <div key={metric.key} className={`${cardClass} cursor-help`} title={metric.description}>
+              <h3 className={labelClass}>
+                {metric.label}
+                <Info size={14} className="ml-1" aria-label={metric.description} />
+              </h3>
+              <p className={`text-2xl font-bold ${signed ? ((value as number) > 0 ? 'text-green-500' : 'text-red-500') : ''}`}>
+                {formatPerformanceMetric(value, metric.format)}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceMetricsResults;
@@ -0,0 +1,165 @@
+import { PerformanceMetrics, EquityPoint, MonthlyStats, WeeklyStats } from './types';
+import { getDayCashFlow, getTradingEquity } from './cash-flows';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SQN_TRADE_CAP = 100;
+
+export type PerformanceMetricFormat = 'ratio' | 'percent' | 'currency' | 'r';
+
+// Display order, labels and tooltip text for the results page and the exports
+export const PERFORMANCE_METRICS: { key: keyof PerformanceMetrics; label: string; format: PerformanceMetricFormat; description: string }[] = [
+  { key: 'profitFactor', label: 'Profit Factor', format: 'ratio', description: 'Total profit of winning trades divided by total loss of losing trades, after costs. Above 1 means the strategy made money; 1.5 to 2 is solid.' },
+  { key: 'expectancy', label: 'Expectancy', format: 'currency', description: 'Average net profit or loss per trade, after commissions and slippage.' },
+  { key: 'expectancyR', label: 'Expectancy (R)', format: 'r', description: 'Average net result per trade in multiples of the amount risked.' },
+  { key: 'sqn', label: 'SQN', format: 'ratio', description: 'System Quality Number: average R divided by its standard deviation, times the square root of the trade count (capped at 100 trades). Above 2 is good, above 3 excellent.' },
+  { key: 'sharpeRatio', label: 'Sharpe Ratio', format: 'ratio', description: 'Average daily return divided by the standard deviation of daily returns, annualized. No risk-free rate is subtracted.' },
+  { key: 'sortinoRatio', label: 'Sortino Ratio', format: 'ratio', description: 'Like the Sharpe ratio, but only losing days count as risk: average daily return over downside deviation, annualized.' },
+  { key: 'calmarRatio', label: 'Calmar Ratio', format: 'ratio', description: 'Compound annual growth rate divided by the maximum drawdown. Higher means more growth for the pain endured.' },
+  { key: 'cagr', label: 'CAGR', format: 'percent', description: 'Compound annual growth rate: the steady yearly return that turns the initial equity into the final equity over the period.' },
+  { key: 'recoveryFactor', label: 'Recovery Factor', format: 'ratio', description: 'Net profit divided by the largest peak-to-trough drawdown in dollars. How many times over the worst drawdown was earned back.' },
+  { key: 'ulcerIndex', label: 'Ulcer Index', format: 'ratio', description: 'Root mean square of the daily drawdown from the running peak, in %. Captures both how deep and how long drawdowns are; lower is better.' },
+  { key: 'profitableDaysPercent', label: 'Profitable Days', format: 'percent', description: 'Share of trading days that ended with equity up, out of days where equity changed.' },
+  { key: 'profitableWeeksPercent', label: 'Profitable Weeks', format: 'percent', description: 'Share of weeks with trades that closed with a net profit.' },
+  { key: 'profitableMonthsPercent', label: 'Profitable Months', format: 'percent', description: 'Share of months with trades that closed with a net profit.' }
+];
+
+export const formatPerformanceMetric = (value: number | null, format: PerformanceMetricFormat): string => {
+  if (value === null) return 'N/A';
+  switch (format) {
+    case 'currency':
+      return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'r':
+      return `${value.toFixed(2)}R`;
+    default:
+      return value.toFixed(2);
+  }
+};
+
+export interface PerformanceInputs {
+  equityCurve: EquityPoint[];
+  tradePnls: ArrayLike<number>;       // Net P&L of every trade
+  tradeRMultiples: ArrayLike<number>; // Net R of every trade
+  monthlyBreakdown: MonthlyStats[];
+  weeklyBreakdown: WeeklyStats[];
+  years: number;          // Calendar time covered, for CAGR
+  periodsPerYear: number; // Trading days in a year, to annualize the daily ratios
+}
+
+// Calendar years from the first to the last trading day, both included
+export const getYearsCovered = (firstDate: Date, lastDate: Date): number => {
+  return ((lastDate.getTime() - firstDate.getTime()) / MS_PER_DAY + 1) / 365.25;
+};
+
+const mean = (values: ArrayLike<number>): number => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+};
+
+// Sample standard deviation
+const standardDeviation = (values: ArrayLike<number>, average: number): number => {
+  if (values.length < 2) return 0;
+  let sumSquares = 0;
+  for (let i = 0; i < values.length; i++) sumSquares += (values[i] - average) ** 2;
+  return Math.sqrt(sumSquares / (values.length - 1));
+};
+
+const percentOf = (count: number, total: number): number => (total > 0 ? (count / total) * 100 : 0);
+
+export const calculatePerformanceMetrics = (inputs: PerformanceInputs): PerformanceMetrics => {
+  const { equityCurve, tradePnls, tradeRMultiples, monthlyBreakdown, weeklyBreakdown, years, periodsPerYear } = inputs;
+
+  let grossWins = 0;
+  let grossLosses = 0;
+  for (let i = 0; i < tradePnls.length; i++) {
+    if (tradePnls[i] > 0) grossWins += tradePnls[i];
+    else grossLosses -= tradePnls[i];
+  }
+
+  const expectancyR = mean(tradeRMultiples);
+  const rStdDev = standardDeviation(tradeRMultiples, expectancyR);
+
+  // Daily returns, drawdowns and the day count come from the end-of-day equity curve,
+  // with deposits and withdrawals taken out so they don't count as gains or losses
+  const dailyReturns: number[] = [];
+  let changedDays = 0;
+  let upDays = 0;
+  let growth = 1;
+  let peak = equityCurve[0] ? getTradingEquity(equityCurve[0]) : 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let sumSquaredDrawdown = 0;
+  for (let i = 0; i < equityCurve.length; i++) {
+    const point = equityCurve[i];
+    if (i > 0) {
+      const previous = equityCurve[i - 1].equity;
+      const tradedEquity = point.equity - getDayCashFlow(equityCurve, i);
+      if (previous > 0) {
+        dailyReturns.push(tradedEquity / previous - 1);
+        growth *= tradedEquity / previous;
+      }
+      if (tradedEquity !== previous) changedDays++;
+      if (tradedEquity > previous) upDays++;
+    }
+    const tradingEquity = getTradingEquity(point);
+    peak = Math.max(peak, tradingEquity);
+    const adjustedPeak = peak + (point.netCashFlow ?? 0);
+    const drawdownPercent = adjustedPeak > 0 ? ((peak - tradingEquity) / adjustedPeak) * 100 : 0;
+    maxDrawdown = Math.max(maxDrawdown, peak - tradingEquity);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdownPercent);
+    sumSquaredDrawdown += drawdownPercent ** 2;
+  }
+
+  const averageReturn = mean(dailyReturns);
+  const returnStdDev = standardDeviation(dailyReturns, averageReturn);
+  const downsideDeviation = Math.sqrt(dailyReturns.reduce((sum, value) => sum + Math.min(0, value) ** 2, 0) / (dailyReturns.length || 1));
+  const annualization = Math.sqrt(periodsPerYear);
+
+  const first = equityCurve[0];
+  const last = equityCurve[equityCurve.length - 1];
+  const initialEquity = first?.equity ?? 0;
+  const finalEquity = last?.equity ?? initialEquity;
+  // With cash flows the growth is time-weighted; otherwise it is simply final over initial equity
+  const totalGrowth = last?.netCashFlow !== undefined ? growth : finalEquity / initialEquity;
+  const cagr = years > 0 && initialEquity > 0
+    ? (totalGrowth > 0 ? (totalGrowth ** (1 / years) - 1) * 100 : -100)
+    : null;
+  const netProfit = first && last ? getTradingEquity(last) - getTradingEquity(first) : 0;
+
+  const activeWeeks = weeklyBreakdown.filter(week => week.trades > 0);
+  const activeMonths = monthlyBreakdown.filter(month => month.trades > 0);
+
+  return {
+    profitFactor: grossLosses > 0 ? grossWins / grossLosses : null,
+    expectancy: mean(tradePnls),
+    expectancyR,
+    sqn: rStdDev > 0 ? (Math.sqrt(Math.min(tradeRMultiples.length, SQN_TRADE_CAP)) * expectancyR) / rStdDev : null,
+    sharpeRatio: returnStdDev > 0 ? (averageReturn / returnStdDev) * annualization : null,
+    sortinoRatio: downsideDeviation > 0 ? (averageReturn / downsideDeviation) * annualization : null,
+    calmarRatio: cagr !== null && maxDrawdownPercent > 0 ? cagr / maxDrawdownPercent : null,
+    cagr,
+    recoveryFactor: maxDrawdown > 0 ? netProfit / maxDrawdown : null,
+    ulcerIndex: equityCurve.length > 0 ? Math.sqrt(sumSquaredDrawdown / equityCurve.length) : 0,
+    profitableDaysPercent: percentOf(upDays, changedDays),
+    profitableWeeksPercent: percentOf(activeWeeks.filter(week => week.profitLoss > 0).length, activeWeeks.length),
+    profitableMonthsPercent: percentOf(activeMonths.filter(month => month.profitLoss > 0).length, activeMonths.length)
+  };
+};
+
+export const createEmptyPerformanceMetrics = (): PerformanceMetrics => ({
+  profitFactor: null,
+  expectancy: 0,
+  expectancyR: 0,
+  sqn: null,
+  sharpeRatio: null,
+  sortinoRatio: null,
+  calmarRatio: null,
+  cagr: null,
+  recoveryFactor: null,
+  ulcerIndex: 0,
+  profitableDaysPercent: 0,
+  profitableWeeksPercent: 0,
+  profitableMonthsPercent: 0
+});
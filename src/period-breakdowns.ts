@@ -0,0 +1,79 @@
+import { BreakdownPeriod, DailyStats, EquityPoint, PeriodStats } from './types';
+import { getTradingEquity } from './cash-flows';
+
+export const BREAKDOWN_PERIODS: { value: BreakdownPeriod; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+  { value: 'year', label: 'Yearly' }
+];
+
+// "Q1 2027" for a quarter, "2027" for a year
+const getPeriodKey = (dateKey: string, period: 'quarter' | 'year'): string => {
+  const year = dateKey.slice(0, 4);
+  if (period === 'year') return year;
+  return `Q${Math.floor((Number(dateKey.slice(5, 7)) - 1) / 3) + 1} ${year}`;
+};
+
+const getPreviousYearKey = (key: string): string => key.replace(/\d{4}$/, year => String(Number(year) - 1));
+
+// Roll the daily results up into calendar quarters or years. The equity curve holds the starting
+// equity followed by one end-of-day point per entry of the daily breakdown. Returns and drawdowns
+// leave out deposits and withdrawals.
+export const summarizePeriods = (equityCurve: EquityPoint[], dailyBreakdown: DailyStats[], period: 'quarter' | 'year'): PeriodStats[] => {
+  const periods: PeriodStats[] = [];
+  let current: PeriodStats | null = null;
+  let peak = 0;
+  let startTradingEquity = 0;
+  const tradingChange = new Map<string, number>();
+
+  for (let i = 0; i < dailyBreakdown.length; i++) {
+    const day = dailyBreakdown[i];
+    const openingEquity = equityCurve[i]?.equity ?? 0;
+    const equity = equityCurve[i + 1]?.equity ?? openingEquity;
+    const key = getPeriodKey(day.dateKey, period);
+    if (!current || current.period !== key) {
+      current = {
+        period: key,
+        startEquity: openingEquity,
+        endEquity: openingEquity,
+        wins: 0,
+        losses: 0,
+        profitLoss: 0,
+        trades: 0,
+        fees: 0,
+        returnPercent: 0,
+        winRate: 0,
+        maxDrawdown: 0,
+        yearOverYearGrowth: null
+      };
+      periods.push(current);
+      peak = equityCurve[i] ? getTradingEquity(equityCurve[i]) : openingEquity;
+      startTradingEquity = peak;
+    }
+
+    current.wins += day.wins;
+    current.losses += day.losses;
+    current.profitLoss += day.profitLoss;
+    current.trades += day.trades;
+    current.fees += day.fees;
+    current.endEquity = equity;
+    const tradingEquity = equityCurve[i + 1] ? getTradingEquity(equityCurve[i + 1]) : peak;
+    tradingChange.set(key, tradingEquity - startTradingEquity);
+    // Drawdowns restart from the equity the period opened with
+    peak = Math.max(peak, tradingEquity);
+    const adjustedPeak = peak + (equityCurve[i + 1]?.netCashFlow ?? 0);
+    if (adjustedPeak > 0) current.maxDrawdown = Math.max(current.maxDrawdown, ((peak - tradingEquity) / adjustedPeak) * 100);
+  }
+
+  const byKey = new Map(periods.map(summary => [summary.period, summary]));
+  periods.forEach(summary => {
+    summary.returnPercent = summary.startEquity > 0 ? ((tradingChange.get(summary.period) ?? 0) / summary.startEquity) * 100 : 0;
+    summary.winRate = summary.wins / (summary.wins + summary.losses) * 100 || 0;
+    const previous = byKey.get(getPreviousYearKey(summary.period));
+    summary.yearOverYearGrowth = previous && previous.profitLoss !== 0
+      ? ((summary.profitLoss - previous.profitLoss) / Math.abs(previous.profitLoss)) * 100
+      : null;
+  });
+  return periods;
+};
@@ -0,0 +1,65 @@
+import { SimulationSettings, PositionSizingModel } from './types';
+import { isBootstrapEnabled, summarizeRSample } from './bootstrap';
+
+export const DEFAULT_KELLY_FRACTION = 0.5;
+export const DEFAULT_STEP_UP_PERCENT = 10;
+
+export const POSITION_SIZING_MODELS: { value: PositionSizingModel; label: string }[] = [
+  { value: 'fixed-dollar', label: 'Fixed Dollar Amount' },
+  { value: 'percent-of-equity', label: 'Fixed % of Current Equity' },
+  { value: 'kelly', label: 'Fractional Kelly' },
+  { value: 'step-up', label: 'Fixed % of Starting Equity with Step-Ups' }
+];
+
+// Full Kelly fraction of equity for a win rate (%) and reward-to-risk ratio; negative means no edge
+export const calculateKellyFraction = (winRate: number, riskRewardRatio: number): number => {
+  const p = winRate / 100;
+  if (riskRewardRatio <= 0) return 0;
+  return p - (1 - p) / riskRewardRatio;
+};
+
+// Percentage of equity risked per trade under the configured fractional Kelly; a bootstrap sample supplies its own edge
+export const getKellyRiskPercent = (params: SimulationSettings): number => {
+  const sample = isBootstrapEnabled(params) ? summarizeRSample(params.bootstrapSample) : null;
+  const kelly = sample
+    ? calculateKellyFraction(sample.winRate, sample.payoffRatio)
+    : calculateKellyFraction(params.winRate, params.riskRewardRatio);
+  return Math.max(0, kelly) * (params.kellyFraction ?? DEFAULT_KELLY_FRACTION) * 100;
+};
+
+// Returns the dollar amount to risk on the next trade given the current equity.
+// The step-up model keeps state, so create one sizer per simulated path.
+export const createPositionSizer = (params: SimulationSettings): ((equity: number) => number) => {
+  const model = params.positionSizingModel || 'fixed-dollar';
+
+  switch (model) {
+    case 'percent-of-equity':
+      return (equity) => Math.max(0, equity) * (params.positionSizingPercent / 100);
+
+    case 'kelly': {
+      const riskPercent = getKellyRiskPercent(params);
+      return (equity) => Math.max(0, equity) * (riskPercent / 100);
+    }
+
+    case 'step-up': {
+      // Risk a fixed % of a sizing base that starts at starting equity and only
+      // steps up once equity has grown by the step-up threshold above it
+      const stepUpPercent = params.stepUpPercent ?? DEFAULT_STEP_UP_PERCENT;
+      let sizingBase = params.startingEquity;
+      return (equity) => {
+        while (stepUpPercent > 0 && equity >= sizingBase * (1 + stepUpPercent / 100)) {
+          sizingBase *= 1 + stepUpPercent / 100;
+        }
+        return Math.min(Math.max(0, equity), sizingBase * (params.positionSizingPercent / 100));
+      };
+    }
+
+    default:
+      return () => params.riskPerTrade;
+  }
+};
+
+// Risk on the very first trade, used for previews before a simulation runs
+export const getInitialRisk = (params: SimulationSettings): number => {
+  return createPositionSizer(params)(params.startingEquity);
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { SimulationSettings, ChallengeResult, ChallengeBatchResult, ChallengeOutcome } from './types';
+import { CHALLENGE_OUTCOME_LABELS } from './prop-challenge';
+
+interface PropChallengeResultsProps {
+  params: SimulationSettings;
+  result: ChallengeResult | null;
+  batch?: ChallengeBatchResult | null;
+  darkMode: boolean;
+}
+
+const PropChallengeResults: React.FC<PropChallengeResultsProps> = ({ params, result, batch, darkMode }) => {
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  const rules = [
+    `Target +$${(params.challengeProfitTarget || 0).toLocaleString()}`,
+    params.challengeMaxLoss ? `Max loss $${params.challengeMaxLoss.toLocaleString()} (${params.challengeMaxLossType === 'trailing' ? 'trailing' : 'static'})` : null,
+    params.challengeDailyLossLimit ? `Daily loss $${params.challengeDailyLossLimit.toLocaleString()}` : null,
+    params.challengeMinTradingDays ? `Min ${params.challengeMinTradingDays} days` : null,
+    params.challengeTimeLimitDays ? `${params.challengeTimeLimitDays}-day limit` : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-1">Prop Firm Challenge</h2>
+      <p className={`${subTextClass} mb-4`}>{rules}</p>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        <div className={cardClass}>
+          <h3 className={labelClass}>This Attempt</h3>
+          {result ? (
+            <>
+              <p className={`text-2xl font-bold inline-flex items-center ${result.passed ? 'text-green-500' : 'text-red-500'}`}>
+                {result.passed ? <CheckCircle size={22} className="mr-2" /> : <XCircle size={22} className="mr-2" />}
+                {result.passed ? 'Passed' : 'Failed'}
+              </p>
+              <p className={subTextClass}>
+                {CHALLENGE_OUTCOME_LABELS[result.outcome]} on {result.endDate} (day {result.tradingDays})
+              </p>
+            </>
+          ) : (
+            <p className="text-2xl font-bold">N/A</p>
+          )}
+        </div>
+        {batch && (
+          <>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Pass Probability</h3>
+              <p className={`text-2xl font-bold ${batch.passProbability >= 50 ? 'text-green-500' : 'text-red-500'}`}>
+                {batch.passProbability.toFixed(1)}%
+              </p>
+              <p className={subTextClass}>
+                {batch.passed.toLocaleString()} of {batch.attempts.toLocaleString()} attempts
+              </p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Avg Days to Pass</h3>
+              <p className="text-2xl font-bold">{batch.passed > 0 ? batch.averageDaysToPass.toFixed(1) : 'N/A'}</p>
+            </div>
+            <div className={cardClass}>
+              <h3 className={labelClass}>Avg Days to Fail</h3>
+              <p className="text-2xl font-bold">{batch.passed < batch.attempts ? batch.averageDaysToFail.toFixed(1) : 'N/A'}</p>
+            </div>
+          </>
+        )}
+      </div>
+      {batch && (
+        <div className={`${cardClass} mt-4`}>
+          <h3 className={`${labelClass} mb-2`}>Outcomes Across Attempts</h3>
+          {(Object.keys(batch.outcomeCounts) as ChallengeOutcome[]).map(outcome => {
+            const share = (batch.outcomeCounts[outcome] / batch.attempts) * 100;
+            return (
+              <div key={outcome} className="flex items-center mb-1 text-sm">
+                <span className="w-56">{CHALLENGE_OUTCOME_LABELS[outcome]}</span>
+                <div className={`flex-grow h-3 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div
+                    className={`h-full ${outcome === 'passed' ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{ width: `${share}%` }}
+                  />
+                </div>
+                <span className="w-16 text-right">{share.toFixed(1)}%</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropChallengeResults;
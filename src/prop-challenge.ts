@@ -0,0 +1,88 @@
+import { SimulationSettings, ChallengeResult, ChallengeOutcome, ChallengeMaxLossType } from './types';
+
+export const DEFAULT_CHALLENGE_ATTEMPTS = 1000;
+export const MAX_CHALLENGE_ATTEMPTS = 10000;
+
+export const CHALLENGE_MAX_LOSS_TYPES: { value: ChallengeMaxLossType; label: string }[] = [
+  { value: 'static', label: 'Static (from starting balance)' },
+  { value: 'trailing', label: 'Trailing (from peak equity)' }
+];
+
+export const CHALLENGE_OUTCOME_LABELS: Record<ChallengeOutcome, string> = {
+  'passed': 'Passed',
+  'failed-max-loss': 'Max loss breached',
+  'failed-daily-loss': 'Daily loss limit breached',
+  'failed-time-limit': 'Ran out of time'
+};
+
+export interface ChallengeTracker {
+  startDay: (equity: number) => void;
+  // Check the loss limits after a trade; returns true once the challenge has ended
+  recordTrade: (equity: number) => boolean;
+  // Check the profit target and time limit at the close; returns true once the challenge has ended
+  endDay: (equity: number, date: string, isLastDay: boolean) => boolean;
+  getResult: () => ChallengeResult | null;
+}
+
+// Evaluates one funded-account evaluation attempt as the engine trades through it
+export const createChallengeTracker = (params: SimulationSettings): ChallengeTracker => {
+  const startingBalance = params.startingEquity;
+  const profitTarget = params.challengeProfitTarget || 0;
+  const maxLoss = params.challengeMaxLoss || 0;
+  const dailyLossLimit = params.challengeDailyLossLimit || 0;
+  const minTradingDays = params.challengeMinTradingDays || 0;
+  const timeLimitDays = params.challengeTimeLimitDays || 0;
+  const trailing = params.challengeMaxLossType === 'trailing';
+
+  let peakEquity = startingBalance;
+  let dayStartEquity = startingBalance;
+  let tradingDays = 0;
+  let pendingOutcome: ChallengeOutcome | null = null;
+  let result: ChallengeResult | null = null;
+
+  const startDay = (equity: number) => {
+    dayStartEquity = equity;
+  };
+
+  const recordTrade = (equity: number): boolean => {
+    peakEquity = Math.max(peakEquity, equity);
+    const lossFloor = (trailing ? peakEquity : startingBalance) - maxLoss;
+
+    if (maxLoss > 0 && equity <= lossFloor) {
+      pendingOutcome = 'failed-max-loss';
+    } else if (dailyLossLimit > 0 && dayStartEquity - equity >= dailyLossLimit) {
+      pendingOutcome = 'failed-daily-loss';
+    }
+    return pendingOutcome !== null;
+  };
+
+  const endDay = (equity: number, date: string, isLastDay: boolean): boolean => {
+    if (result) return true;
+    tradingDays++;
+
+    let outcome = pendingOutcome;
+    if (!outcome && equity >= startingBalance + profitTarget && tradingDays >= minTradingDays) {
+      outcome = 'passed';
+    } else if (!outcome && ((timeLimitDays > 0 && tradingDays >= timeLimitDays) || isLastDay)) {
+      outcome = 'failed-time-limit';
+    }
+
+    if (outcome) {
+      result = {
+        outcome,
+        passed: outcome === 'passed',
+        tradingDays,
+        endDate: date,
+        endEquity: equity
+      };
+    }
+    return result !== null;
+  };
+
+  return {
+    startDay,
+    recordTrade,
+    endDay,
+    getResult: () => result
+  };
+};
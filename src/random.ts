@@ -0,0 +1,62 @@
+// Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export const MAX_SEED = 4294967295;
+
+// Mulberry32 - small, fast 32-bit PRNG that produces the same sequence for the same seed
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Generate a fresh random seed
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED);
+};
+
+// Derive the seed for one path of a batch run; path 0 uses the base seed itself
+export const deriveSeed = (seed: number, index: number): number => {
+  if (index === 0) return seed >>> 0;
+  let h = (seed ^ Math.imul(index, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Random source for a run: seeded when a seed is given, otherwise Math.random
+export const createRandom = (seed?: number): RandomSource => {
+  return seed !== undefined ? createSeededRandom(seed) : Math.random;
+};
+
+// One independent stream per kind of draw, so turning a feature on or tightening a rule doesn't shift the
+// numbers the other kinds see. The stream seeds are taken from the run's source in a fixed order.
+export interface RandomStreams {
+  // Win/loss, breakeven and slipped-stop rolls; each draws once for every scheduled trade, taken or not
+  outcome: RandomSource;
+  breakeven: RandomSource;
+  outsized: RandomSource;
+  slippage: RandomSource;
+  // Win and loss sizes from their distributions
+  size: RandomSource;
+  regime: RandomSource;
+  bootstrap: RandomSource;
+}
+
+export const createRandomStreams = (random: RandomSource): RandomStreams => {
+  const nextStream = () => createSeededRandom(Math.floor(random() * MAX_SEED));
+  return {
+    outcome: nextStream(),
+    breakeven: nextStream(),
+    outsized: nextStream(),
+    slippage: nextStream(),
+    size: nextStream(),
+    regime: nextStream(),
+    bootstrap: nextStream()
+  };
+};
@@ -0,0 +1,130 @@
+import { SimulationStats, MonteCarloResult, EquityPoint, MonthlyStats, WeeklyStats, DailyStats, PeriodStats, PercentileCurvePoint, TradeRecord, DrawdownEpisode, CashFlowRecord } from './types';
+import { CsvColumn, toCsv } from './csv';
+import { PERFORMANCE_METRICS } from './performance-metrics';
+
+const equityCurveColumns: CsvColumn<EquityPoint>[] = [
+  { header: 'Date', value: point => point.date },
+  { header: 'Month', value: point => point.month },
+  { header: 'Week', value: point => point.week },
+  { header: 'Equity', value: point => point.equity },
+  { header: 'Risk Per Trade', value: point => point.riskPerTrade },
+  { header: 'Pre-Tax Equity', value: point => point.preTaxEquity },
+  { header: 'After-Tax Equity', value: point => point.afterTaxEquity },
+  { header: 'Regime', value: point => point.regime }
+];
+
+const monthlyColumns: CsvColumn<MonthlyStats>[] = [
+  { header: 'Month', value: month => month.month },
+  { header: 'Trades', value: month => month.trades },
+  { header: 'Wins', value: month => month.wins },
+  { header: 'Losses', value: month => month.losses },
+  { header: 'Win Rate', value: month => month.winRate },
+  { header: 'Profit/Loss', value: month => month.profitLoss },
+  { header: 'Fees & Slippage', value: month => month.fees }
+];
+
+const weeklyColumns: CsvColumn<WeeklyStats>[] = [
+  { header: 'Week', value: week => week.week },
+  { header: 'Trades', value: week => week.trades },
+  { header: 'Wins', value: week => week.wins },
+  { header: 'Losses', value: week => week.losses },
+  { header: 'Win Rate', value: week => week.winRate },
+  { header: 'Profit/Loss', value: week => week.profitLoss },
+  { header: 'Fees & Slippage', value: week => week.fees }
+];
+
+const dailyColumns: CsvColumn<DailyStats>[] = [
+  { header: 'Date', value: day => day.dateKey },
+  { header: 'Trades', value: day => day.trades },
+  { header: 'Wins', value: day => day.wins },
+  { header: 'Losses', value: day => day.losses },
+  { header: 'Profit/Loss', value: day => day.profitLoss },
+  { header: 'Fees & Slippage', value: day => day.fees }
+];
+
+const periodColumns: CsvColumn<PeriodStats>[] = [
+  { header: 'Period', value: period => period.period },
+  { header: 'Start Equity', value: period => period.startEquity },
+  { header: 'End Equity', value: period => period.endEquity },
+  { header: 'Trades', value: period => period.trades },
+  { header: 'Wins', value: period => period.wins },
+  { header: 'Losses', value: period => period.losses },
+  { header: 'Win Rate', value: period => period.winRate },
+  { header: 'Profit/Loss', value: period => period.profitLoss },
+  { header: 'Return %', value: period => period.returnPercent },
+  { header: 'Max Drawdown %', value: period => period.maxDrawdown },
+  { header: 'YoY Growth %', value: period => period.yearOverYearGrowth },
+  { header: 'Fees & Slippage', value: period => period.fees }
+];
+
+const tradeLogColumns: CsvColumn<TradeRecord>[] = [
+  { header: 'Trade', value: trade => trade.sequence },
+  { header: 'Date', value: trade => trade.date },
+  { header: 'Trade of Day', value: trade => trade.index },
+  { header: 'Outcome', value: trade => trade.result },
+  { header: 'R-Multiple', value: trade => trade.rMultiple },
+  { header: 'Risk', value: trade => trade.risk },
+  { header: 'P&L', value: trade => trade.pnl },
+  { header: 'Equity After', value: trade => trade.equity }
+];
+
+const drawdownColumns: CsvColumn<DrawdownEpisode>[] = [
+  { header: 'Peak Date', value: episode => episode.peakDate },
+  { header: 'Trough Date', value: episode => episode.troughDate },
+  { header: 'Recovery Date', value: episode => episode.recoveryDate ?? 'Not recovered' },
+  { header: 'Peak Equity', value: episode => episode.peakEquity },
+  { header: 'Trough Equity', value: episode => episode.troughEquity },
+  { header: 'Depth %', value: episode => episode.depthPercent },
+  { header: 'Depth $', value: episode => episode.depthAmount },
+  { header: 'Days to Trough', value: episode => episode.daysToTrough },
+  { header: 'Days to Recover', value: episode => episode.daysToRecovery },
+  { header: 'Duration (Days)', value: episode => episode.durationDays }
+];
+
+const cashFlowColumns: CsvColumn<CashFlowRecord>[] = [
+  { header: 'Date', value: record => record.date },
+  { header: 'Deposit', value: record => record.deposit },
+  { header: 'Withdrawal', value: record => record.withdrawal },
+  { header: 'Held Back by Minimum Balance', value: record => (record.blocked ? 'Yes' : 'No') },
+  { header: 'Equity After', value: record => record.equityAfter },
+  { header: 'Cumulative Withdrawals', value: record => record.cumulativeWithdrawals }
+];
+
+const percentileColumns: CsvColumn<PercentileCurvePoint>[] = [
+  { header: 'Date', value: point => point.date },
+  { header: 'P5', value: point => point.p5 },
+  { header: 'P25', value: point => point.p25 },
+  { header: 'P50', value: point => point.p50 },
+  { header: 'P75', value: point => point.p75 },
+  { header: 'P95', value: point => point.p95 }
+];
+
+const performanceColumns: CsvColumn<{ label: string; value: number | null }>[] = [
+  { header: 'Metric', value: metric => metric.label },
+  { header: 'Value', value: metric => metric.value }
+];
+
+export const equityCurveToCsv = (stats: SimulationStats): string => toCsv(stats.equityCurve, equityCurveColumns);
+
+export const monthlyBreakdownToCsv = (stats: SimulationStats): string => toCsv(stats.monthlyBreakdown, monthlyColumns);
+
+export const weeklyBreakdownToCsv = (stats: SimulationStats): string => toCsv(stats.weeklyBreakdown, weeklyColumns);
+
+export const dailyBreakdownToCsv = (stats: SimulationStats): string => toCsv(stats.dailyBreakdown, dailyColumns);
+
+export const quarterlyBreakdownToCsv = (stats: SimulationStats): string => toCsv(stats.quarterlyBreakdown, periodColumns);
+
+export const yearlyBreakdownToCsv = (stats: SimulationStats): string => toCsv(stats.yearlyBreakdown, periodColumns);
+
+export const tradeLogToCsv = (stats: SimulationStats): string => toCsv(stats.trades, tradeLogColumns);
+
+export const drawdownEpisodesToCsv = (stats: SimulationStats): string => toCsv(stats.drawdownEpisodes, drawdownColumns);
+
+export const cashFlowsToCsv = (stats: SimulationStats): string => toCsv(stats.cashFlows.records, cashFlowColumns);
+
+export const percentileCurveToCsv = (result: MonteCarloResult): string => toCsv(result.percentileCurve, percentileColumns);
+
+export const performanceMetricsToCsv = (stats: SimulationStats): string => toCsv(
+  PERFORMANCE_METRICS.map(metric => ({ label: metric.label, value: stats.performance[metric.key] })),
+  performanceColumns
+);
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FileDown, FileJson, FileText, ChevronDown } from 'lucide-react';
+import { SimulationSettings, SimulationRunResult } from './types';
+import { equityCurveToCsv, yearlyBreakdownToCsv, quarterlyBreakdownToCsv, monthlyBreakdownToCsv, weeklyBreakdownToCsv, dailyBreakdownToCsv, tradeLogToCsv, drawdownEpisodesToCsv, performanceMetricsToCsv, cashFlowsToCsv } from './results-csv';
+import { resultsToJson, exportFileName, downloadFile } from './results-export';
+import { buildHtmlReport } from './html-report';
+
+interface ResultsExportMenuProps {
+  params: SimulationSettings;
+  result: SimulationRunResult;
+  darkMode: boolean;
+}
+
+const ResultsExportMenu: React.FC<ResultsExportMenuProps> = ({ params, result, darkMode }) => {
+  const [open, setOpen] = useState(false);
+
+  const exports = [
+    { label: 'Equity Curve (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'equity', 'csv'), equityCurveToCsv(result.stats), 'text/csv') },
+    { label: 'Yearly Breakdown (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'yearly', 'csv'), yearlyBreakdownToCsv(result.stats), 'text/csv') },
+    { label: 'Quarterly Breakdown (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'quarterly', 'csv'), quarterlyBreakdownToCsv(result.stats), 'text/csv') },
+    { label: 'Monthly Breakdown (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'monthly', 'csv'), monthlyBreakdownToCsv(result.stats), 'text/csv') },
+    { label: 'Weekly Breakdown (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'weekly', 'csv'), weeklyBreakdownToCsv(result.stats), 'text/csv') },
+    { label: 'Daily Breakdown (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'daily', 'csv'), dailyBreakdownToCsv(result.stats), 'text/csv') },
+    { label: 'Trade Log (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'trades', 'csv'), tradeLogToCsv(result.stats), 'text/csv') },
+    { label: 'Drawdown Episodes (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'drawdowns', 'csv'), drawdownEpisodesToCsv(result.stats), 'text/csv') },
+    { label: 'Performance Metrics (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'metrics', 'csv'), performanceMetricsToCsv(result.stats), 'text/csv') },
+    ...(result.stats.cashFlows.records.length > 0
+      ? [{ label: 'Deposits & Withdrawals (CSV)', icon: FileDown, run: () => downloadFile(exportFileName(params, 'cashflows', 'csv'), cashFlowsToCsv(result.stats), 'text/csv') }]
+      : []),
+    { label: 'Settings & Results (JSON)', icon: FileJson, run: () => downloadFile(exportFileName(params, 'results', 'json'), resultsToJson(params, result), 'application/json') },
+    { label: 'Printable Report (HTML)', icon: FileText, run: () => downloadFile(exportFileName(params, 'report', 'html'), buildHtmlReport(params, result), 'text/html') }
+  ];
+
+  const menuClass = darkMode
+    ? "absolute left-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-md shadow-lg z-20"
+    : "absolute left-0 mt-2 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-20";
+
+  const itemClass = darkMode
+    ? "w-full px-4 py-2 text-left text-sm inline-flex items-center hover:bg-gray-700"
+    : "w-full px-4 py-2 text-left text-sm inline-flex items-center hover:bg-gray-100";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={darkMode
+          ? "px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 inline-flex items-center"
+          : "px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 inline-flex items-center"}
+      >
+        <FileDown size={18} className="mr-2" />
+        Export
+        <ChevronDown size={16} className="ml-1" />
+      </button>
+      {open && (
+        <div className={menuClass}>
+          {exports.map(item => (
+            <button
+              key={item.label}
+              className={itemClass}
+              onClick={() => {
+                item.run();
+                setOpen(false);
+              }}
+            >
+              <item.icon size={16} className="mr-2" />
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsExportMenu;
@@ -0,0 +1,35 @@
+import { SimulationSettings, SimulationRunResult } from './types';
+
+export interface ResultsDocument extends SimulationRunResult {
+  settings: SimulationSettings;
+}
+
+// Settings and every result of a run as one JSON-ready document, shared by the app and the CLI
+export const buildResultsDocument = (settings: SimulationSettings, result: SimulationRunResult): ResultsDocument => ({
+  settings,
+  stats: result.stats,
+  monteCarlo: result.monteCarlo,
+  challengeBatch: result.challengeBatch,
+  regimeComparison: result.regimeComparison
+});
+
+export const resultsToJson = (settings: SimulationSettings, result: SimulationRunResult): string => {
+  return JSON.stringify(buildResultsDocument(settings, result), null, 2) + '\n';
+};
+
+// File name for an export, tagged with the seed so it can be traced back to the run
+export const exportFileName = (settings: SimulationSettings, name: string, extension: string): string => {
+  return `trading-simulation-${settings.seed ?? 'random'}-${name}.${extension}`;
+};
+
+// Save generated text as a file without a round trip to a server
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
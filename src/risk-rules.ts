@@ -0,0 +1,131 @@
+import { SimulationSettings, RiskRuleStats, DailyLimitUnit, DrawdownAction } from './types';
+
+export const DAILY_LIMIT_UNITS: { value: DailyLimitUnit; label: string }[] = [
+  { value: 'dollars', label: '$' },
+  { value: 'r', label: 'R' }
+];
+
+export const DRAWDOWN_ACTIONS: { value: DrawdownAction; label: string }[] = [
+  { value: 'halt', label: 'Halt trading for good' },
+  { value: 'pause', label: 'Pause for a number of days' }
+];
+
+export interface RiskRuleTracker {
+  // Reset the daily counters; returns false when a halt or pause keeps the whole day flat
+  startDay: (equity: number, date: string) => boolean;
+  // Whether another trade may be taken today
+  canTrade: () => boolean;
+  recordTrade: (pnl: number, isLoss: boolean, riskPerTrade: number, equity: number) => void;
+  skipTrades: (count: number) => void;
+  // Shift the peak by money deposited or withdrawn, so a withdrawal doesn't read as a drawdown
+  recordCashFlow: (amount: number) => void;
+  getStats: () => RiskRuleStats;
+}
+
+export const hasRiskRules = (params: SimulationSettings): boolean => {
+  return (params.dailyLossLimit || 0) > 0
+    || (params.maxConsecutiveLosses || 0) > 0
+    || (params.dailyProfitTarget || 0) > 0
+    || (params.maxDrawdownPercent || 0) > 0;
+};
+
+export const createEmptyRiskRuleStats = (): RiskRuleStats => ({
+  dailyLossLimitHits: 0,
+  consecutiveLossStops: 0,
+  profitTargetHits: 0,
+  drawdownStops: 0,
+  daysSkipped: 0,
+  tradesSkipped: 0,
+  haltedOn: null
+});
+
+// Evaluates the configured trading rules trade by trade during a simulated path
+export const createRiskRuleTracker = (params: SimulationSettings): RiskRuleTracker => {
+  const stats = createEmptyRiskRuleStats();
+  const limitUnit = params.dailyLimitUnit || 'dollars';
+  const dailyLossLimit = params.dailyLossLimit || 0;
+  const dailyProfitTarget = params.dailyProfitTarget || 0;
+  const maxConsecutiveLosses = params.maxConsecutiveLosses || 0;
+  const maxDrawdownPercent = params.maxDrawdownPercent || 0;
+  const drawdownAction = params.drawdownAction || 'halt';
+
+  let peakEquity = params.startingEquity;
+  let halted = false;
+  let pauseDaysRemaining = 0;
+  let resetPeakOnResume = false;
+  let currentDate = '';
+
+  // Daily counters
+  let stoppedForDay = false;
+  let dayPnl = 0;
+  let dayR = 0;
+  let consecutiveLosses = 0;
+
+  const startDay = (equity: number, date: string): boolean => {
+    currentDate = date;
+    dayPnl = 0;
+    dayR = 0;
+    consecutiveLosses = 0;
+    stoppedForDay = false;
+
+    if (halted) {
+      stoppedForDay = true;
+    } else if (pauseDaysRemaining > 0) {
+      pauseDaysRemaining--;
+      stoppedForDay = true;
+    } else if (resetPeakOnResume) {
+      // Measure drawdown from where trading resumes, otherwise the pause would trigger again at once
+      peakEquity = equity;
+      resetPeakOnResume = false;
+    }
+
+    if (stoppedForDay) {
+      stats.daysSkipped++;
+    }
+    return !stoppedForDay;
+  };
+
+  const recordTrade = (pnl: number, isLoss: boolean, riskPerTrade: number, equity: number) => {
+    dayPnl += pnl;
+    dayR += riskPerTrade > 0 ? pnl / riskPerTrade : 0;
+    consecutiveLosses = isLoss ? consecutiveLosses + 1 : 0;
+    peakEquity = Math.max(peakEquity, equity);
+
+    const drawdownPercent = peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0;
+    const dayResult = limitUnit === 'r' ? dayR : dayPnl;
+
+    if (maxDrawdownPercent > 0 && drawdownPercent >= maxDrawdownPercent) {
+      stats.drawdownStops++;
+      stoppedForDay = true;
+      if (drawdownAction === 'pause') {
+        pauseDaysRemaining = params.drawdownPauseDays || 0;
+        resetPeakOnResume = true;
+      } else {
+        halted = true;
+        stats.haltedOn = currentDate;
+      }
+    } else if (dailyLossLimit > 0 && dayResult <= -dailyLossLimit) {
+      stats.dailyLossLimitHits++;
+      stoppedForDay = true;
+    } else if (maxConsecutiveLosses > 0 && consecutiveLosses >= maxConsecutiveLosses) {
+      stats.consecutiveLossStops++;
+      stoppedForDay = true;
+    } else if (dailyProfitTarget > 0 && dayResult >= dailyProfitTarget) {
+      stats.profitTargetHits++;
+      stoppedForDay = true;
+    }
+  };
+
+  return {
+    startDay,
+    canTrade: () => !stoppedForDay,
+    recordTrade,
+    skipTrades: (count: number) => {
+      stats.tradesSkipped += count;
+    },
+    recordCashFlow: (amount: number) => {
+      peakEquity += amount;
+    },
+    getStats: () => ({ ...stats })
+  };
+};
@@ -0,0 +1,19 @@
+import { SavedConfig } from './types';
+
+const SAVED_CONFIGS_KEY = 'tradingSimulationConfigs';
+
+// Configurations saved from the settings form; an unreadable entry counts as none saved
+export const loadSavedConfigs = (): SavedConfig[] => {
+  const savedConfigsStr = localStorage.getItem(SAVED_CONFIGS_KEY);
+  if (!savedConfigsStr) return [];
+  try {
+    return JSON.parse(savedConfigsStr);
+  } catch (e) {
+    console.error('Failed to parse saved configurations', e);
+    return [];
+  }
+};
+
+export const storeSavedConfigs = (configs: SavedConfig[]) => {
+  localStorage.setItem(SAVED_CONFIGS_KEY, JSON.stringify(configs));
+};
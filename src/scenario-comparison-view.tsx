@@ -0,0 +1,215 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GitCompare } from 'lucide-react';
+import { SimulationSettings, Scenario, ScenarioResult, SavedConfig } from './types';
+import { loadSavedConfigs } from './saved-configs';
+import { MIN_SCENARIOS, SCENARIO_COLORS, SCENARIO_METRICS, getBestScenarios, buildComparisonCurve } from './scenario-comparison';
+import { formatMetric } from './monte-carlo-results';
+
+interface ScenarioComparisonViewProps {
+  currentSettings: SimulationSettings;
+  results: ScenarioResult[] | null;
+  onRun: (scenarios: Scenario[], shareSeed: boolean) => void;
+  running: boolean;
+}
+
+const CURRENT_SETTINGS_ID = 'current';
+
+const ScenarioComparisonView: React.FC<ScenarioComparisonViewProps> = ({ currentSettings, results, onRun, running }) => {
+  const darkMode = !!currentSettings.darkMode;
+  const [savedConfigs, setSavedConfigs] = useState<SavedConfig[]>([]);
+  // Selected scenarios in run order: 'current' or the index of a saved config
+  const [selected, setSelected] = useState<string[]>([CURRENT_SETTINGS_ID]);
+  const [shareSeed, setShareSeed] = useState(true);
+
+  useEffect(() => {
+    setSavedConfigs(loadSavedConfigs());
+  }, []);
+
+  const options = useMemo(() => [
+    { id: CURRENT_SETTINGS_ID, name: 'Current settings', settings: currentSettings },
+    ...savedConfigs.map((config, index) => ({ id: String(index), name: config.name, settings: config.settings }))
+  ], [currentSettings, savedConfigs]);
+
+  const curve = useMemo(() => (results ? buildComparisonCurve(results) : []), [results]);
+
+  const toggleScenario = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(item => item !== id) : [...selected, id]);
+  };
+
+  const handleRun = () => {
+    const scenarios = selected
+      .map(id => options.find(option => option.id === id))
+      .filter((option): option is typeof options[number] => !!option)
+      .map(option => ({ name: option.name, settings: option.settings }));
+    onRun(scenarios, shareSeed);
+  };
+
+  // Dynamic classes based on dark mode
+  const containerClass = darkMode
+    ? "p-4 bg-gray-900 rounded-lg shadow-sm text-white"
+    : "p-4 bg-gray-50 rounded-lg shadow-sm";
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left"
+    : "py-2 px-4 border-b text-left";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700"
+    : "py-2 px-4 border-b";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className={containerClass}>
+      <h2 className="text-xl font-bold mb-4">Compare Scenarios</h2>
+
+      {/* Scenario picker */}
+      <div className={`${cardClass} mb-6`}>
+        <p className={`${subTextClass} mb-3`}>
+          Pick at least {MIN_SCENARIOS} scenarios: the current settings or configurations saved from the settings page.
+          {savedConfigs.length === 0 && ' Save a configuration first to compare it with the current settings.'}
+        </p>
+        <div className="flex flex-wrap gap-4 mb-3">
+          {options.map(option => (
+            <label key={option.id} className="inline-flex items-center text-sm">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={selected.includes(option.id)}
+                onChange={() => toggleScenario(option.id)}
+              />
+              {option.name}
+            </label>
+          ))}
+        </div>
+        <label className={`inline-flex items-center text-sm mb-3 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={shareSeed}
+            onChange={(e) => setShareSeed(e.target.checked)}
+          />
+          Use the same random trade sequence for every scenario
+        </label>
+        <div>
+          <button
+            type="button"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleRun}
+            disabled={selected.length < MIN_SCENARIOS || running}
+          >
+            <GitCompare size={18} className="mr-2" />
+            Run Comparison
+          </button>
+        </div>
+      </div>
+
+      {results && (
+        <>
+          {/* Overlaid equity curves */}
+          <div className={`${cardClass} mb-6`}>
+            <h3 className="text-lg font-bold mb-1">Equity Curves</h3>
+            <p className={`${subTextClass} mb-4`}>
+              {results.every(result => result.settings.seed === results[0].settings.seed)
+                ? `All scenarios share seed ${results[0].settings.seed}`
+                : `Seeds: ${results.map(result => `${result.name} ${result.settings.seed}`).join(', ')}`}
+            </p>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={curve}
+                  margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+                  <XAxis
+                    dataKey="day"
+                    tick={{ fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" }}
+                    stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+                    label={{ value: 'Trading day', position: 'insideBottom', offset: -2, fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" }}
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }}
+                    stroke={darkMode ? "#4B5563" : "#9CA3AF"}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) => ['$' + Math.round(value).toLocaleString(), name]}
+                    labelFormatter={(day: number) => `Day ${day}`}
+                    contentStyle={{
+                      backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                      borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                      color: darkMode ? "#F3F4F6" : "#111827"
+                    }}
+                  />
+                  <Legend />
+                  {results.map((result, index) => (
+                    <Line
+                      key={index}
+                      type="monotone"
+                      dataKey={`scenario${index}`}
+                      name={result.name}
+                      stroke={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                      dot={false}
+                      strokeWidth={2}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Metric diff table */}
+          <div className={`${cardClass} overflow-x-auto`}>
+            <h3 className="text-lg font-bold mb-1">Metrics</h3>
+            <p className={`${subTextClass} mb-4`}>
+              The best value of each metric is highlighted; differences are against {results[0].name}
+            </p>
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={tableHeaderClass}>Metric</th>
+                  {results.map((result, index) => (
+                    <th key={index} className={tableHeaderClass}>
+                      <span style={{ color: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}>{result.name}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {SCENARIO_METRICS.map(metric => {
+                  const values = results.map(result => Number(result.stats[metric.key]) || 0);
+                  const best = getBestScenarios(values, metric.better);
+                  return (
+                    <tr key={metric.key}>
+                      <td className={tableCellClass}>{metric.label}</td>
+                      {values.map((value, index) => (
+                        <td
+                          key={index}
+                          className={`${tableCellClass} ${best.includes(index) ? 'font-bold text-green-500' : ''}`}
+                        >
+                          {formatMetric(value, metric.format)}
+                          {index > 0 && value !== values[0] && (
+                            <span className={`ml-2 font-normal ${subTextClass}`}>
+                              ({value > values[0] ? '+' : '-'}{formatMetric(Math.abs(value - values[0]), metric.format)})
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioComparisonView;
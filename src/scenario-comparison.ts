@@ -0,0 +1,94 @@
+import { Scenario, ScenarioResult, MetricConfidenceInterval, SimulationProgress, SimulationStats } from './types';
+import { runSimulation } from './simulation-engine';
+import { generateSeed } from './random';
+
+export const MIN_SCENARIOS = 2;
+export const SCENARIO_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#EC4899'];
+
+export interface ScenarioMetric extends Pick<MetricConfidenceInterval, 'label' | 'format'> {
+  key: keyof SimulationStats;
+  better: 'higher' | 'lower' | null; // null = neither direction is better
+}
+
+// Every SimulationStats number shown in the comparison table
+export const SCENARIO_METRICS: ScenarioMetric[] = [
+  { key: 'initialEquity', label: 'Initial Equity', format: 'currency', better: null },
+  { key: 'finalEquity', label: 'Final Equity', format: 'currency', better: 'higher' },
+  { key: 'totalProfit', label: 'Total Profit', format: 'currency', better: 'higher' },
+  { key: 'grossProfit', label: 'Gross Profit', format: 'currency', better: 'higher' },
+  { key: 'totalFees', label: 'Total Fees', format: 'currency', better: 'lower' },
+  { key: 'totalSlippage', label: 'Total Slippage', format: 'currency', better: 'lower' },
+  { key: 'feesPercentOfGross', label: 'Costs (% of Gross)', format: 'percent', better: 'lower' },
+  { key: 'totalTaxPaid', label: 'Total Tax Paid', format: 'currency', better: 'lower' },
+  { key: 'afterTaxProfit', label: 'After-Tax Profit', format: 'currency', better: 'higher' },
+  { key: 'winRate', label: 'Win Rate', format: 'percent', better: 'higher' },
+  { key: 'riskRewardRatio', label: 'Risk:Reward', format: 'number', better: 'higher' },
+  { key: 'averageWin', label: 'Avg Win', format: 'currency', better: 'higher' },
+  { key: 'averageLoss', label: 'Avg Loss', format: 'currency', better: 'lower' },
+  { key: 'averageWinR', label: 'Avg Win (R)', format: 'r', better: 'higher' },
+  { key: 'averageLossR', label: 'Avg Loss (R)', format: 'r', better: 'lower' },
+  { key: 'avgRPerDay', label: 'Avg R Per Day', format: 'r', better: 'higher' },
+  { key: 'avgRPerWeek', label: 'Avg R Per Week', format: 'r', better: 'higher' },
+  { key: 'avgTradesPerDay', label: 'Avg Trades Per Day', format: 'number', better: null },
+  { key: 'totalTrades', label: 'Total Trades', format: 'number', better: null },
+  { key: 'breakevenTrades', label: 'Breakeven Trades', format: 'number', better: null },
+  { key: 'outsizedLosses', label: 'Slipped Stops', format: 'number', better: 'lower' },
+  { key: 'averageRiskPerTrade', label: 'Avg Risk Per Trade', format: 'currency', better: null },
+  { key: 'maxWinStreak', label: 'Max Win Streak', format: 'number', better: 'higher' },
+  { key: 'maxLossStreak', label: 'Max Loss Streak', format: 'number', better: 'lower' },
+  { key: 'maxDrawdown', label: 'Max Drawdown', format: 'percent', better: 'lower' }
+];
+
+// Give every scenario a seed. With a shared seed every scheduled trade gets the same win/loss, breakeven,
+// slipped-stop and slippage rolls in all scenarios, so ones that differ only in sizing, costs, breakeven
+// rate or risk rules are compared on the same luck.
+export const resolveScenarioSeeds = (scenarios: Scenario[], shareSeed: boolean): Scenario[] => {
+  const sharedSeed = scenarios[0]?.settings.seed ?? generateSeed();
+  return scenarios.map(scenario => ({
+    ...scenario,
+    settings: {
+      ...scenario.settings,
+      seed: shareSeed ? sharedSeed : scenario.settings.seed ?? generateSeed()
+    }
+  }));
+};
+
+// Run one detailed path per scenario
+export const runScenarioComparison = (
+  scenarios: Scenario[],
+  onProgress?: (progress: SimulationProgress) => void
+): ScenarioResult[] => {
+  return scenarios.map((scenario, index) => ({
+    ...scenario,
+    stats: runSimulation(scenario.settings, {
+      recordTrades: false,
+      onProgress: onProgress && ((completed, total) => onProgress({
+        phase: `Simulating ${scenario.name} (${index + 1} of ${scenarios.length})`,
+        completed,
+        total
+      }))
+    })
+  }));
+};
+
+// Indexes of the scenarios with the best value; none when the metric has no better direction or all tie
+export const getBestScenarios = (values: number[], better: ScenarioMetric['better']): number[] => {
+  if (!better || values.every(value => value === values[0])) return [];
+  const best = better === 'higher' ? Math.max(...values) : Math.min(...values);
+  return values.reduce<number[]>((indexes, value, index) => (value === best ? [...indexes, index] : indexes), []);
+};
+
+// Equity curves keyed by trading day so scenarios over different calendars still line up from the start
+export const buildComparisonCurve = (results: ScenarioResult[]): Record<string, number>[] => {
+  const length = Math.max(0, ...results.map(result => result.stats.equityCurve.length));
+  const rows: Record<string, number>[] = [];
+  for (let day = 0; day < length; day++) {
+    const row: Record<string, number> = { day };
+    results.forEach((result, index) => {
+      const point = result.stats.equityCurve[day];
+      if (point) row[`scenario${index}`] = point.equity;
+    });
+    rows.push(row);
+  }
+  return rows;
+};
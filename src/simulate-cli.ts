@@ -0,0 +1,159 @@
+// Headless command-line runner for the simulation engine.
+//
+// Usage: npm run simulate -- <settings.json> [options]
+//
+//   --format json|csv                 Output format (default: json)
+//   --table equity|yearly|quarterly|monthly|weekly|daily|trades|drawdowns|metrics|cashflows  Table written in CSV format (default: equity)
+//   --output <file>                   Write to a file instead of stdout
+//   --seed <n>                        Override the seed in the settings file
+//   --paths <n>                       Run a Monte Carlo batch of n paths
+//
+// The settings file holds SimulationSettings fields (missing fields use the app defaults)
+// or a saved configuration of the form { "name": ..., "settings": { ... } }.
+import fs from 'fs';
+import { SimulationSettings } from './types';
+import { validateSettings } from './simulation-engine';
+import { runSimulationJob } from './simulation-job';
+import { createDefaultSettings } from './default-settings';
+import { generateSeed } from './random';
+import { equityCurveToCsv, yearlyBreakdownToCsv, quarterlyBreakdownToCsv, monthlyBreakdownToCsv, weeklyBreakdownToCsv, dailyBreakdownToCsv, tradeLogToCsv, drawdownEpisodesToCsv, performanceMetricsToCsv, cashFlowsToCsv, percentileCurveToCsv } from './results-csv';
+import { resultsToJson } from './results-export';
+
+type OutputFormat = 'json' | 'csv';
+type CsvTable = 'equity' | 'yearly' | 'quarterly' | 'monthly' | 'weekly' | 'daily' | 'trades' | 'drawdowns' | 'metrics' | 'cashflows';
+
+interface CliOptions {
+  settingsPath: string;
+  format: OutputFormat;
+  table: CsvTable;
+  output?: string;
+  seed?: number;
+  paths?: number;
+}
+
+const USAGE = 'Usage: npm run simulate -- <settings.json> [--format json|csv] [--table equity|yearly|quarterly|monthly|weekly|daily|trades|drawdowns|metrics|cashflows] [--output file] [--seed n] [--paths n]';
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseNumberArg = (name: string, value: string | undefined): number => {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    return fail(`--${name} expects a number`);
+  }
+  return parsed;
+};
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: Partial<CliOptions> = { format: 'json', table: 'equity' };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--format': {
+        const format = args[++i];
+        if (format !== 'json' && format !== 'csv') fail('--format must be json or csv');
+        options.format = format as OutputFormat;
+        break;
+      }
+      case '--table': {
+        const table = args[++i];
+        if (table !== 'equity' && table !== 'yearly' && table !== 'quarterly' && table !== 'monthly' && table !== 'weekly' && table !== 'daily' && table !== 'trades' && table !== 'drawdowns' && table !== 'metrics' && table !== 'cashflows') {
+          fail('--table must be equity, yearly, quarterly, monthly, weekly, daily, trades, drawdowns, metrics or cashflows');
+        }
+        options.table = table as CsvTable;
+        break;
+      }
+      case '--output':
+        options.output = args[++i];
+        break;
+      case '--seed':
+        options.seed = parseNumberArg('seed', args[++i]);
+        break;
+      case '--paths':
+        options.paths = parseNumberArg('paths', args[++i]);
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        if (arg.startsWith('--')) fail(`Unknown option ${arg}\n${USAGE}`);
+        options.settingsPath = arg;
+    }
+  }
+
+  if (!options.settingsPath) {
+    return fail(USAGE);
+  }
+
+  return options as CliOptions;
+};
+
+// Read a settings file, accepting either bare settings or a saved configuration
+const loadSettings = (settingsPath: string): SimulationSettings => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+  } catch (e) {
+    return fail(`Failed to read settings from ${settingsPath}: ${(e as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return fail(`${settingsPath} does not contain a settings object`);
+  }
+
+  const record = parsed as { settings?: Partial<SimulationSettings> } & Partial<SimulationSettings>;
+  const fileSettings = record.settings && typeof record.settings === 'object' ? record.settings : record;
+  return { ...createDefaultSettings(), ...fileSettings };
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const settings = loadSettings(options.settingsPath);
+
+  if (options.seed !== undefined) settings.seed = options.seed;
+  if (options.paths !== undefined) settings.monteCarloPaths = options.paths;
+  // Always record the seed so the output can be reproduced
+  settings.seed = settings.seed ?? generateSeed();
+
+  const errors = validateSettings(settings);
+  if (errors.length > 0) {
+    fail(`Invalid settings in ${options.settingsPath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const result = runSimulationJob(settings);
+  const { stats, monteCarlo } = result;
+
+  let output: string;
+  if (options.format === 'csv') {
+    const tables: Record<CsvTable, () => string> = {
+      equity: () => equityCurveToCsv(stats),
+      yearly: () => yearlyBreakdownToCsv(stats),
+      quarterly: () => quarterlyBreakdownToCsv(stats),
+      monthly: () => monthlyBreakdownToCsv(stats),
+      weekly: () => weeklyBreakdownToCsv(stats),
+      daily: () => dailyBreakdownToCsv(stats),
+      trades: () => tradeLogToCsv(stats),
+      drawdowns: () => drawdownEpisodesToCsv(stats),
+      metrics: () => performanceMetricsToCsv(stats),
+      cashflows: () => cashFlowsToCsv(stats)
+    };
+    // A Monte Carlo batch writes its percentile curve instead of the single path's equity
+    output = monteCarlo && options.table === 'equity' ? percentileCurveToCsv(monteCarlo) : tables[options.table]();
+  } else {
+    output = resultsToJson(settings, result);
+  }
+
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    console.error(`Wrote ${options.output} (seed ${settings.seed})`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main();
@@ -0,0 +1,535 @@
+import { SimulationSettings, SimulationStats, DateInfo, MonthlyStats, WeeklyStats, DailyStats, EquityPoint, MarketRegime, RegimeSummary, TradingCalendar, TradeRecord } from './types';
+import { RandomSource, createRandom, createRandomStreams } from './random';
+import { createPositionSizer } from './position-sizing';
+import { calculateCommission, drawSlippage } from './trading-costs';
+import { createTaxLedger, isTaxEnabled } from './taxes';
+import { createRiskRuleTracker, createEmptyRiskRuleStats } from './risk-rules';
+import { createChallengeTracker } from './prop-challenge';
+import { createTradeOutcomeSampler, buildRMultipleHistogram } from './trade-outcomes';
+import { createBootstrapSampler, isBootstrapEnabled, summarizeRSample, validateRSample } from './bootstrap';
+import { MARKET_REGIMES, createRegimeModel, isRegimeModelEnabled, validateRegimes } from './market-regimes';
+import { getSessionLength, getSessionTrades, getTradingDaysPerWeek, toDateKey } from './trading-calendar';
+import { findDrawdownEpisodes, getDeepestDrawdown } from './drawdowns';
+import { calculatePerformanceMetrics, createEmptyPerformanceMetrics, getYearsCovered } from './performance-metrics';
+import { createStreakTracker } from './streaks';
+import { summarizePeriods } from './period-breakdowns';
+import { createCashFlowTracker, createEmptyCashFlowSummary, isCashFlowEnabled } from './cash-flows';
+
+export interface SimulationOptions {
+  // Pre-generated trading dates, so batch runs don't rebuild the calendar for every path
+  dates?: DateInfo[];
+  // Random source the run's independent streams are seeded from; defaults to one seeded from params.seed
+  random?: RandomSource;
+  // Keep a ledger of every trade; batch runs turn this off to save memory
+  recordTrades?: boolean;
+  // Called after each simulated day
+  onProgress?: (completedDays: number, totalDays: number) => void;
+}
+
+// Empty stats used before the first simulation completes
+export const createEmptyStats = (): SimulationStats => ({
+  winRate: 0,
+  avgRPerDay: 0,
+  avgRPerWeek: 0,
+  avgTradesPerDay: 0,
+  initialEquity: 0,
+  finalEquity: 0,
+  totalProfit: 0,
+  maxWinStreak: 0,
+  maxLossStreak: 0,
+  maxDrawdown: 0,
+  maxDrawdownPeriod: '',
+  drawdownEpisodes: [],
+  maxWinStreakPeriod: '',
+  maxLossStreakPeriod: '',
+  streaks: { winStreakCounts: [0], lossStreakCounts: [0], worstLosingStreaks: [] },
+  equityCurve: [],
+  trades: [],
+  monthlyBreakdown: [],
+  weeklyBreakdown: [],
+  dailyBreakdown: [],
+  quarterlyBreakdown: [],
+  yearlyBreakdown: [],
+  totalTrades: 0,
+  riskRewardRatio: 0,
+  averageRiskPerTrade: 0,
+  grossProfit: 0,
+  totalFees: 0,
+  totalSlippage: 0,
+  feesPercentOfGross: 0,
+  totalTaxPaid: 0,
+  afterTaxProfit: 0,
+  taxByYear: [],
+  riskRules: createEmptyRiskRuleStats(),
+  cashFlows: createEmptyCashFlowSummary(),
+  averageWin: 0,
+  averageLoss: 0,
+  averageWinR: 0,
+  averageLossR: 0,
+  breakevenTrades: 0,
+  outsizedLosses: 0,
+  rMultipleHistogram: [],
+  regimes: [],
+  performance: createEmptyPerformanceMetrics(),
+  challenge: null
+});
+
+// Labels used to group a date into the equity curve and the monthly and weekly breakdowns
+export const describeDate = (date: Date, sessionLength: number = 1): DateInfo => {
+  const month = date.toLocaleString('default', { month: 'short' });
+  const day = date.getDate();
+  const year = date.getFullYear();
+
+  // Get week number
+  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
+  const pastDaysOfYear = (date.getTime() - firstDayOfYear.getTime()) / 86400000;
+  const weekNumber = Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+
+  return {
+    fullDate: `${month} ${day} ${year}`,
+    month: `${month} ${year}`,
+    week: `Week ${weekNumber}, ${year}`,
+    dateObj: new Date(date),
+    sessionLength
+  };
+};
+
+// Generate trading dates for the simulation period on the given exchange calendar
+export const generateDates = (
+  startDate: Date,
+  endDate: Date,
+  calendar: TradingCalendar = 'weekdays',
+  blackoutDates: string[] = []
+): DateInfo[] => {
+  const dates: DateInfo[] = [];
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    // Skip weekends, exchange holidays and blackout dates
+    const sessionLength = getSessionLength(currentDate, calendar, blackoutDates);
+    if (sessionLength > 0) {
+      dates.push(describeDate(currentDate, sessionLength));
+    }
+
+    // Move to next day
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+
+  return dates;
+};
+
+// Check settings for values the engine cannot simulate; returns a list of problems
+export const validateSettings = (params: SimulationSettings): string[] => {
+  const errors: string[] = [];
+  const startDate = new Date(params.startDate);
+  const endDate = new Date(params.endDate);
+
+  if (isNaN(startDate.getTime())) errors.push('startDate is not a valid date');
+  if (isNaN(endDate.getTime())) errors.push('endDate is not a valid date');
+  if (endDate < startDate) errors.push('endDate must be after startDate');
+  if (!Number.isInteger(params.tradesPerDay) || params.tradesPerDay < 0) errors.push('tradesPerDay must be a non-negative whole number');
+  if (!(params.winRate >= 0 && params.winRate <= 100)) errors.push('winRate must be between 0 and 100');
+  if (!(params.riskRewardRatio > 0)) errors.push('riskRewardRatio must be greater than 0');
+  if ((params.positionSizingModel || 'fixed-dollar') === 'fixed-dollar' && !(params.riskPerTrade > 0)) {
+    errors.push('riskPerTrade must be greater than 0');
+  }
+  if ((params.positionSizingModel === 'percent-of-equity' || params.positionSizingModel === 'step-up')
+    && !(params.positionSizingPercent > 0 && params.positionSizingPercent <= 100)) {
+    errors.push('positionSizingPercent must be between 0 and 100');
+  }
+  if (params.kellyFraction !== undefined && !(params.kellyFraction > 0 && params.kellyFraction <= 1)) {
+    errors.push('kellyFraction must be between 0 and 1');
+  }
+  if ((params.riskWarningPercent || 0) < 0) errors.push('riskWarningPercent cannot be negative');
+  if ((params.feesPerTrade || 0) < 0) errors.push('feesPerTrade cannot be negative');
+  if ((params.commissionPercent || 0) < 0) errors.push('commissionPercent cannot be negative');
+  if ((params.averageSlippageR || 0) < 0) errors.push('averageSlippageR cannot be negative');
+  if (params.stopDistancePercent !== undefined && !(params.stopDistancePercent > 0)) errors.push('stopDistancePercent must be greater than 0');
+  if (!((params.taxRate || 0) >= 0 && (params.taxRate || 0) < 100)) errors.push('taxRate must be between 0 and 100');
+  if ((params.maxDrawdownPercent || 0) < 0 || (params.maxDrawdownPercent || 0) > 100) errors.push('maxDrawdownPercent must be between 0 and 100');
+  if ((params.annualContribution || 0) < 0) errors.push('annualContribution cannot be negative');
+  if ((params.monthlyWithdrawal || 0) < 0) errors.push('monthlyWithdrawal cannot be negative');
+  if (!((params.withdrawalProfitPercent || 0) >= 0 && (params.withdrawalProfitPercent || 0) <= 100)) errors.push('withdrawalProfitPercent must be between 0 and 100');
+  if ((params.withdrawalHighWaterMark || 0) < 0) errors.push('withdrawalHighWaterMark cannot be negative');
+  if ((params.minimumBalance || 0) < 0) errors.push('minimumBalance cannot be negative');
+  if ((params.dailyLossLimit || 0) < 0) errors.push('dailyLossLimit cannot be negative');
+  if ((params.dailyProfitTarget || 0) < 0) errors.push('dailyProfitTarget cannot be negative');
+  if ((params.drawdownPauseDays || 0) < 0) errors.push('drawdownPauseDays cannot be negative');
+  if (!((params.breakevenRate || 0) >= 0 && (params.breakevenRate || 0) < 100)) errors.push('breakevenRate must be between 0 and 100');
+  if (!((params.outsizedLossRate || 0) >= 0 && (params.outsizedLossRate || 0) <= 100)) errors.push('outsizedLossRate must be between 0 and 100');
+  if (params.outsizedLossR !== undefined && !(params.outsizedLossR > 0)) errors.push('outsizedLossR must be greater than 0');
+  if ((params.winStdDevR || 0) < 0 || (params.lossStdDevR || 0) < 0) errors.push('Outcome standard deviations cannot be negative');
+  if (params.winDistribution === 'custom' && !params.winHistogram?.some(bucket => bucket.weight > 0)) errors.push('winHistogram needs at least one bucket with a positive weight');
+  if (params.lossDistribution === 'custom' && !params.lossHistogram?.some(bucket => bucket.weight > 0)) errors.push('lossHistogram needs at least one bucket with a positive weight');
+  if (params.regimeModel) errors.push(...validateRegimes(params.regimes || []));
+  if (isBootstrapEnabled(params)) errors.push(...validateRSample(params.bootstrapSample));
+  if (params.challengeMode && !((params.challengeProfitTarget || 0) > 0)) errors.push('challengeProfitTarget must be greater than 0 in challenge mode');
+  if (!(params.startingEquity > 0)) errors.push('startingEquity must be greater than 0');
+  if (params.seed !== undefined && !Number.isInteger(params.seed)) errors.push('seed must be a whole number');
+
+  return errors;
+};
+
+// Generate the trading dates for a given set of settings
+export const generateSimulationDates = (params: SimulationSettings): DateInfo[] => {
+  return generateDates(new Date(params.startDate), new Date(params.endDate), params.tradingCalendar, params.blackoutDates);
+};
+
+// Run a single simulated path for the given settings
+export const runSimulation = (params: SimulationSettings, options: SimulationOptions = {}): SimulationStats => {
+  // Set parameters for simulation
+  const tradesPerDay = params.tradesPerDay;
+  // A bootstrap sample brings its own payoff ratio
+  const riskRewardRatio = isBootstrapEnabled(params)
+    ? Number(summarizeRSample(params.bootstrapSample).payoffRatio.toFixed(2))
+    : params.riskRewardRatio;
+  const initialEquity = params.startingEquity;
+  const getRiskPerTrade = createPositionSizer(params);
+  const taxLedger = createTaxLedger(params);
+  const taxEnabled = isTaxEnabled(params);
+  const payTaxesFromAccount = taxEnabled && !!params.payTaxesFromAccount;
+  const riskRules = createRiskRuleTracker(params);
+  const challenge = params.challengeMode ? createChallengeTracker(params) : null;
+  const cashFlows = isCashFlowEnabled(params) ? createCashFlowTracker(params) : null;
+
+  let runningEquity = initialEquity;
+  const equityCurve: EquityPoint[] = [];
+  const trades: TradeRecord[] = [];
+  const recordTrades = options.recordTrades ?? true;
+  const monthlyStats: Record<string, MonthlyStats> = {};
+  const weeklyStats: Record<string, WeeklyStats> = {};
+  const dailyBreakdown: DailyStats[] = [];
+
+  const dates = options.dates || generateSimulationDates(params);
+  const streams = createRandomStreams(options.random || createRandom(params.seed));
+  const drawOutcome = createTradeOutcomeSampler(params, streams);
+  const bootstrap = isBootstrapEnabled(params) ? createBootstrapSampler(params, streams.bootstrap) : null;
+  const regimeModel = isRegimeModelEnabled(params) ? createRegimeModel(params, streams.regime) : null;
+  const regimeStats: Partial<Record<MarketRegime, RegimeSummary>> = {};
+
+  // Simulate trading with the target win rate
+  let totalWins = 0;
+  let totalLosses = 0;
+  let totalTrades = 0;
+  let totalR = 0;
+  let totalRisk = 0;
+  let grossProfit = 0;
+  let totalFees = 0;
+  let totalSlippage = 0;
+  let totalWinPnl = 0;
+  let totalLossPnl = 0;
+  let totalWinR = 0;
+  let totalLossR = 0;
+  let breakevenTrades = 0;
+  let outsizedLosses = 0;
+  const tradeRMultiples: number[] = [];
+  const tradePnls: number[] = [];
+  let riskPerTrade = getRiskPerTrade(initialEquity);
+  // Whether the last simulated day left a tax year unsettled
+  let taxYearOpen = false;
+
+  // Tracking streaks
+  const streaks = createStreakTracker();
+
+  // Initialize monthly and weekly statistics tracking
+  dates.forEach(date => {
+    const monthKey = date.month;
+    if (!monthlyStats[monthKey]) {
+      monthlyStats[monthKey] = {
+        month: monthKey,
+        wins: 0,
+        losses: 0,
+        profitLoss: 0,
+        trades: 0,
+        fees: 0
+      };
+    }
+
+    const weekKey = date.week;
+    if (!weeklyStats[weekKey]) {
+      weeklyStats[weekKey] = {
+        week: weekKey,
+        wins: 0,
+        losses: 0,
+        profitLoss: 0,
+        trades: 0,
+        fees: 0
+      };
+    }
+  });
+
+  // Add initial point to equity curve
+  if (dates.length > 0) {
+    equityCurve.push({
+      date: dates[0]?.fullDate || 'Start',
+      equity: initialEquity,
+      month: dates[0]?.month || 'Start',
+      week: dates[0]?.week || 'Week 1',
+      riskPerTrade,
+      ...(taxEnabled && { preTaxEquity: initialEquity, afterTaxEquity: initialEquity }),
+      ...(cashFlows && { netCashFlow: 0 })
+    });
+  }
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+    let dayEquity = runningEquity;
+    const monthKey = date.month;
+    const weekKey = date.week;
+    const dayStats: DailyStats = {
+      date: date.fullDate,
+      dateKey: toDateKey(date.dateObj),
+      dayOfWeek: date.dateObj.getDay(),
+      wins: 0,
+      losses: 0,
+      profitLoss: 0,
+      trades: 0,
+      fees: 0
+    };
+    dailyBreakdown.push(dayStats);
+
+    riskRules.startDay(dayEquity, date.fullDate);
+    challenge?.startDay(dayEquity);
+
+    // The regime for the day sets its win rate and R:R
+    const regime = regimeModel?.startDay();
+    if (regime && !regimeStats[regime.regime]) {
+      regimeStats[regime.regime] = { regime: regime.regime, days: 0, trades: 0, wins: 0, losses: 0, profitLoss: 0 };
+    }
+    const regimeSummary = regime && regimeStats[regime.regime];
+    if (regimeSummary) regimeSummary.days++;
+
+    // Run trades for this day; early closes trade a shorter session
+    const dayTrades = bootstrap ? bootstrap.startDay(tradesPerDay) : tradesPerDay;
+    const sessionTrades = getSessionTrades(dayTrades, date.sessionLength);
+    for (let j = 0; j < sessionTrades; j++) {
+      // Draw whether the trade wins, loses or scratches, and its size in R. Skipped trades use up
+      // their draws too, so a risk rule doesn't change the trades that come after it.
+      const outcome = bootstrap ? bootstrap.drawOutcome(j) : drawOutcome(regime);
+      const slippageRoll = streams.slippage();
+
+      // Daily limits, streak stops and drawdown halts end the day early
+      if (!riskRules.canTrade()) {
+        riskRules.skipTrades(1);
+        continue;
+      }
+
+      // Size the trade from the equity available right now
+      riskPerTrade = getRiskPerTrade(dayEquity);
+      totalRisk += riskPerTrade;
+      const isWin = outcome.result === 'win';
+      const isLoss = outcome.result === 'loss';
+
+      // Commissions and slippage come off every trade, win or lose
+      const grossPnl = outcome.rMultiple * riskPerTrade;
+      const fees = calculateCommission(params, riskPerTrade);
+      const slippage = drawSlippage(params, riskPerTrade, slippageRoll);
+      const tradeCosts = fees + slippage;
+      const tradePnl = grossPnl - tradeCosts;
+
+      dayEquity += tradePnl;
+      taxLedger.recordGain(tradePnl);
+      grossProfit += grossPnl;
+      totalFees += fees;
+      totalSlippage += slippage;
+      monthlyStats[monthKey].profitLoss += tradePnl;
+      weeklyStats[weekKey].profitLoss += tradePnl;
+      dayStats.profitLoss += tradePnl;
+      monthlyStats[monthKey].fees += tradeCosts;
+      weeklyStats[weekKey].fees += tradeCosts;
+      dayStats.fees += tradeCosts;
+      const netR = outcome.rMultiple - (riskPerTrade > 0 ? tradeCosts / riskPerTrade : 0);
+      totalR += netR;
+      tradeRMultiples.push(netR);
+      tradePnls.push(tradePnl);
+
+      if (isWin) {
+        totalWins++;
+        totalWinPnl += tradePnl;
+        totalWinR += netR;
+        monthlyStats[monthKey].wins++;
+        weeklyStats[weekKey].wins++;
+        dayStats.wins++;
+      } else if (isLoss) {
+        totalLosses++;
+        totalLossPnl -= tradePnl;
+        totalLossR -= netR;
+        if (outcome.outsized) outsizedLosses++;
+        monthlyStats[monthKey].losses++;
+        weeklyStats[weekKey].losses++;
+        dayStats.losses++;
+      } else {
+        breakevenTrades++;
+      }
+      streaks.recordTrade(outcome.result, date.fullDate, tradePnl, netR);
+
+      totalTrades++;
+      if (recordTrades) {
+        trades.push({
+          sequence: totalTrades,
+          date: date.fullDate,
+          month: monthKey,
+          week: weekKey,
+          index: j + 1,
+          result: outcome.result,
+          rMultiple: netR,
+          risk: riskPerTrade,
+          pnl: tradePnl,
+          equity: dayEquity
+        });
+      }
+      if (regimeSummary) {
+        regimeSummary.trades++;
+        regimeSummary.profitLoss += tradePnl;
+        if (isWin) regimeSummary.wins++;
+        if (isLoss) regimeSummary.losses++;
+      }
+      monthlyStats[monthKey].trades++;
+      weeklyStats[weekKey].trades++;
+      dayStats.trades++;
+      riskRules.recordTrade(tradePnl, isLoss, riskPerTrade, dayEquity);
+
+      // A breached challenge limit ends the attempt immediately
+      if (challenge?.recordTrade(dayEquity)) {
+        break;
+      }
+    }
+
+    // Settle taxes at quarter or year end; the last simulated day closes the final tax year
+    const nextDate = dates[i + 1];
+    const year = date.dateObj.getFullYear();
+    const isYearEnd = !nextDate || nextDate.dateObj.getFullYear() !== year;
+    const isQuarterEnd = isYearEnd || Math.floor(nextDate.dateObj.getMonth() / 3) !== Math.floor(date.dateObj.getMonth() / 3);
+    const taxPayment = taxLedger.settle(year, isQuarterEnd, isYearEnd);
+    taxYearOpen = !isYearEnd;
+    if (payTaxesFromAccount) {
+      dayEquity -= taxPayment;
+    }
+
+    // Deposits and withdrawals land on the last trading day of each month
+    if (cashFlows && (!nextDate || nextDate.month !== date.month)) {
+      const cashFlow = cashFlows.settleMonth(dayEquity, monthlyStats[monthKey].profitLoss, date.fullDate, monthKey);
+      dayEquity += cashFlow;
+      riskRules.recordCashFlow(cashFlow);
+    }
+
+    equityCurve.push({
+      date: date.fullDate,
+      equity: dayEquity,
+      month: date.month,
+      week: date.week,
+      riskPerTrade,
+      ...(regime && { regime: regime.regime }),
+      ...(taxEnabled && {
+        preTaxEquity: payTaxesFromAccount ? dayEquity + taxLedger.getTotalPaid() : dayEquity,
+        afterTaxEquity: payTaxesFromAccount ? dayEquity : dayEquity - taxLedger.getTotalPaid()
+      }),
+      ...(cashFlows && { netCashFlow: cashFlows.getNetCashFlow() })
+    });
+
+    runningEquity = dayEquity;
+    options.onProgress?.(i + 1, dates.length);
+
+    // Stop simulating once the challenge is passed or failed
+    if (challenge?.endDay(dayEquity, date.fullDate, i === dates.length - 1)) {
+      break;
+    }
+  }
+
+  // A challenge that ends before the last date still owes tax on the year so far
+  const lastPoint = equityCurve[equityCurve.length - 1];
+  if (taxYearOpen && lastPoint) {
+    const lastDate = dates[equityCurve.length - 2];
+    const taxPayment = taxLedger.settle(lastDate.dateObj.getFullYear(), true, true);
+    if (payTaxesFromAccount) {
+      runningEquity -= taxPayment;
+      lastPoint.equity = runningEquity;
+    }
+    if (taxEnabled) {
+      lastPoint.preTaxEquity = payTaxesFromAccount ? runningEquity + taxLedger.getTotalPaid() : runningEquity;
+      lastPoint.afterTaxEquity = payTaxesFromAccount ? runningEquity : runningEquity - taxLedger.getTotalPaid();
+    }
+  }
+
+  // Calculate overall statistics - a challenge can end before the last date
+  const daysSimulated = Math.max(0, equityCurve.length - 1);
+  const actualWinRate = totalWins / (totalWins + totalLosses) * 100 || params.winRate;
+  // Money moved in or out of the account isn't trading profit
+  const totalProfit = runningEquity - initialEquity - (cashFlows?.getNetCashFlow() ?? 0);
+  const avgRPerDay = totalR / daysSimulated || 0;
+  const avgRPerWeek = avgRPerDay * getTradingDaysPerWeek(params.tradingCalendar);
+  const actualAvgTradesPerDay = totalTrades / daysSimulated || params.tradesPerDay;
+
+  // Drawdowns come from the end-of-day equity curve, after any tax payments
+  const drawdownEpisodes = findDrawdownEpisodes(equityCurve);
+  const deepestDrawdown = getDeepestDrawdown(drawdownEpisodes);
+
+  // Convert monthly stats to array and calculate monthly win rates
+  const monthlyBreakdown = Object.values(monthlyStats).map(month => {
+    const monthWinRate = month.wins / (month.wins + month.losses) * 100 || 0;
+    return {
+      ...month,
+      winRate: monthWinRate.toFixed(2)
+    };
+  });
+
+  // Convert weekly stats to array and calculate weekly win rates
+  const weeklyBreakdown = Object.values(weeklyStats).map(week => {
+    const weekWinRate = week.wins / (week.wins + week.losses) * 100 || 0;
+    return {
+      ...week,
+      winRate: weekWinRate.toFixed(2)
+    };
+  });
+
+  return {
+    winRate: actualWinRate,
+    avgRPerDay,
+    avgRPerWeek,
+    avgTradesPerDay: actualAvgTradesPerDay,
+    initialEquity,
+    totalProfit,
+    finalEquity: runningEquity,
+    maxDrawdown: deepestDrawdown?.depthPercent ?? 0,
+    maxDrawdownPeriod: `${deepestDrawdown?.peakDate || 'N/A'} to ${deepestDrawdown?.troughDate || 'N/A'}`,
+    drawdownEpisodes,
+    ...streaks.getSummary(),
+    equityCurve,
+    trades,
+    monthlyBreakdown,
+    weeklyBreakdown,
+    dailyBreakdown,
+    quarterlyBreakdown: summarizePeriods(equityCurve, dailyBreakdown, 'quarter'),
+    yearlyBreakdown: summarizePeriods(equityCurve, dailyBreakdown, 'year'),
+    totalTrades,
+    riskRewardRatio,
+    averageRiskPerTrade: totalTrades > 0 ? totalRisk / totalTrades : riskPerTrade,
+    grossProfit,
+    totalFees,
+    totalSlippage,
+    feesPercentOfGross: grossProfit > 0 ? (totalFees / grossProfit) * 100 : 0,
+    totalTaxPaid: taxLedger.getTotalPaid(),
+    afterTaxProfit: payTaxesFromAccount ? totalProfit : totalProfit - taxLedger.getTotalPaid(),
+    taxByYear: taxLedger.getYearlySummary(),
+    riskRules: riskRules.getStats(),
+    cashFlows: cashFlows ? cashFlows.getSummary(equityCurve) : createEmptyCashFlowSummary(),
+    averageWin: totalWins > 0 ? totalWinPnl / totalWins : 0,
+    averageLoss: totalLosses > 0 ? totalLossPnl / totalLosses : 0,
+    averageWinR: totalWins > 0 ? totalWinR / totalWins : 0,
+    averageLossR: totalLosses > 0 ? totalLossR / totalLosses : 0,
+    breakevenTrades,
+    outsizedLosses,
+    rMultipleHistogram: buildRMultipleHistogram(tradeRMultiples),
+    regimes: MARKET_REGIMES.flatMap(({ value }) => regimeStats[value] || []),
+    performance: calculatePerformanceMetrics({
+      equityCurve,
+      tradePnls,
+      tradeRMultiples,
+      monthlyBreakdown,
+      weeklyBreakdown,
+      years: daysSimulated > 0 ? getYearsCovered(dates[0].dateObj, dates[daysSimulated - 1].dateObj) : 0,
+      periodsPerYear: getTradingDaysPerWeek(params.tradingCalendar) * 52
+    }),
+    challenge: challenge ? challenge.getResult() : null
+  };
+};
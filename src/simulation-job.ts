@@ -0,0 +1,32 @@
+import { SimulationSettings, SimulationRunResult, SimulationProgress } from './types';
+import { runSimulation } from './simulation-engine';
+import { runMonteCarlo, runChallengeBatch, runRegimeComparison } from './monte-carlo';
+import { isRegimeModelEnabled } from './market-regimes';
+
+// Run everything the results page needs for one set of settings:
+// the single detailed path plus the Monte Carlo, challenge and regime batches when enabled
+export const runSimulationJob = (
+  params: SimulationSettings,
+  onProgress?: (progress: SimulationProgress) => void
+): SimulationRunResult => {
+  const stats = runSimulation(params, {
+    onProgress: onProgress && ((completed, total) => onProgress({ phase: 'Simulating trades', completed, total }))
+  });
+
+  // Batch mode runs many paths of the same settings
+  const monteCarlo = (params.monteCarloPaths || 0) > 1
+    ? runMonteCarlo(params, onProgress && ((completed, total) => onProgress({ phase: 'Running Monte Carlo paths', completed, total })))
+    : null;
+
+  // Challenge mode repeats the evaluation to estimate the pass probability
+  const challengeBatch = params.challengeMode
+    ? runChallengeBatch(params, onProgress && ((completed, total) => onProgress({ phase: 'Running challenge attempts', completed, total })))
+    : null;
+
+  // The regime model is measured against an independent-trade baseline
+  const regimeComparison = isRegimeModelEnabled(params)
+    ? runRegimeComparison(params, onProgress && ((completed, total) => onProgress({ phase: 'Comparing regimes with independent trades', completed, total })))
+    : null;
+
+  return { stats, monteCarlo, challengeBatch, regimeComparison };
+};
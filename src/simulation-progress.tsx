@@ -0,0 +1,55 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { SimulationProgress as SimulationProgressState } from './types';
+
+interface SimulationProgressProps {
+  progress: SimulationProgressState;
+  onCancel: () => void;
+  darkMode?: boolean;
+}
+
+const SimulationProgress: React.FC<SimulationProgressProps> = ({ progress, onCancel, darkMode }) => {
+  const percent = progress.total > 0 ? Math.min(100, (progress.completed / progress.total) * 100) : 0;
+
+  const modalOverlayClass = darkMode
+    ? "fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+    : "fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50";
+
+  const modalContentClass = darkMode
+    ? "bg-gray-800 p-6 rounded-lg shadow-lg w-full max-w-md text-white"
+    : "bg-white p-6 rounded-lg shadow-lg w-full max-w-md";
+
+  return (
+    <div className={modalOverlayClass}>
+      <div className={modalContentClass}>
+        <div className="flex items-center mb-4">
+          <Loader2 size={20} className="mr-2 animate-spin" />
+          <h3 className="text-lg font-medium">{progress.phase}...</h3>
+        </div>
+        <div className={`w-full h-3 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <div className="flex justify-between items-center mt-4">
+          <p className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            {progress.completed.toLocaleString()} / {progress.total.toLocaleString()} ({percent.toFixed(0)}%)
+          </p>
+          <button
+            type="button"
+            onClick={onCancel}
+            className={darkMode
+              ? "px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 inline-flex items-center"
+              : "px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 inline-flex items-center"}
+          >
+            <X size={16} className="mr-1" />
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationProgress;
@@ -0,0 +1,44 @@
+import { SimulationWorkerRequest, SimulationWorkerResponse, SimulationProgress } from './types';
+import { runSimulationJob } from './simulation-job';
+import { runScenarioComparison } from './scenario-comparison';
+import { runParameterSweep } from './parameter-sweep';
+
+// Minimal view of the dedicated worker scope (the app compiles against the DOM lib)
+interface SimulationWorkerScope {
+  onmessage: ((event: MessageEvent<SimulationWorkerRequest>) => void) | null;
+  postMessage: (message: SimulationWorkerResponse) => void;
+}
+
+const workerScope = globalThis as unknown as SimulationWorkerScope;
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+
+  // Only post progress when the whole percentage changes to avoid flooding the main thread
+  let lastPhase = '';
+  let lastPercent = -1;
+  const reportProgress = (progress: SimulationProgress) => {
+    const percent = Math.floor((progress.completed / progress.total) * 100);
+    if (progress.phase === lastPhase && percent === lastPercent) return;
+    lastPhase = progress.phase;
+    lastPercent = percent;
+    workerScope.postMessage({ type: 'progress', id: request.id, progress });
+  };
+
+  try {
+    if (request.type === 'compare') {
+      const results = runScenarioComparison(request.scenarios, reportProgress);
+      workerScope.postMessage({ type: 'comparison', id: request.id, results });
+    } else if (request.type === 'sweep') {
+      const result = runParameterSweep(request.params, request.sweep, (completed, total) => reportProgress({ phase: 'Sweeping parameters', completed, total }));
+      workerScope.postMessage({ type: 'sweep', id: request.id, result });
+    } else {
+      const result = runSimulationJob(request.params, reportProgress);
+      workerScope.postMessage({ type: 'result', id: request.id, result });
+    }
+  } catch (e) {
+    workerScope.postMessage({ type: 'error', id: request.id, message: (e as Error).message });
+  }
+};
+
+export {};
@@ -0,0 +1,180 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { SimulationSettings, SimulationStats } from './types';
+import { getOutcomeProbabilities, getExpectedRuns, getExpectedStreakCounts, getExpectedLongestStreak } from './streaks';
+
+interface StreakResultsProps {
+  params: SimulationSettings;
+  stats: SimulationStats;
+  darkMode: boolean;
+}
+
+interface StreakBar {
+  length: number;
+  actual: number;
+  expected: number;
+}
+
+// Theoretical counts shorter than this are left off the end of the chart
+const MIN_CHART_EXPECTED = 0.5;
+
+// Pair the observed streak counts with theory, out to the longer of the longest observed
+// streak and the last length theory still expects to see about once
+const buildStreakBars = (counts: number[], probability: number, trades: number): StreakBar[] => {
+  let maxLength = Math.max(1, counts.length - 1);
+  while (getExpectedRuns(probability, trades, maxLength + 1) >= MIN_CHART_EXPECTED) {
+    maxLength++;
+  }
+  const expected = getExpectedStreakCounts(probability, trades, maxLength);
+  return expected.slice(1).map((value, index) => ({
+    length: index + 1,
+    actual: counts[index + 1] || 0,
+    expected: value
+  }));
+};
+
+const formatCurrency = (value: number): string => `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`;
+
+const StreakResults: React.FC<StreakResultsProps> = ({ params, stats, darkMode }) => {
+  const probabilities = useMemo(() => getOutcomeProbabilities(params), [params]);
+  const winBars = useMemo(
+    () => buildStreakBars(stats.streaks.winStreakCounts, probabilities.win, stats.totalTrades),
+    [stats.streaks.winStreakCounts, probabilities.win, stats.totalTrades]
+  );
+  const lossBars = useMemo(
+    () => buildStreakBars(stats.streaks.lossStreakCounts, probabilities.loss, stats.totalTrades),
+    [stats.streaks.lossStreakCounts, probabilities.loss, stats.totalTrades]
+  );
+  const expectedLongestLoss = useMemo(
+    () => getExpectedLongestStreak(probabilities.loss, stats.totalTrades),
+    [probabilities.loss, stats.totalTrades]
+  );
+  const expectedLongestWin = useMemo(
+    () => getExpectedLongestStreak(probabilities.win, stats.totalTrades),
+    [probabilities.win, stats.totalTrades]
+  );
+
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left whitespace-nowrap"
+    : "py-2 px-4 border-b text-left whitespace-nowrap";
+
+  const tableCellClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 whitespace-nowrap"
+    : "py-2 px-4 border-b whitespace-nowrap";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const axisStroke = darkMode ? "#4B5563" : "#9CA3AF";
+  const axisTick = { fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" };
+
+  if (stats.totalTrades === 0) return null;
+
+  const streakChart = (title: string, bars: StreakBar[], color: string) => (
+    <div className={cardClass}>
+      <h3 className="text-lg font-bold mb-4">{title}</h3>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={bars}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+            <XAxis dataKey="length" tick={axisTick} stroke={axisStroke} />
+            <YAxis tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }} stroke={axisStroke} allowDecimals={false} />
+            <Tooltip
+              formatter={(value: number, name: string) => [name === 'Expected' ? value.toFixed(2) : value.toLocaleString(), name]}
+              labelFormatter={(label: number) => `${label} in a row`}
+              contentStyle={{
+                backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                color: darkMode ? "#F3F4F6" : "#111827"
+              }}
+            />
+            <Legend />
+            <Bar dataKey="actual" name="Actual" fill={color} />
+            <Bar dataKey="expected" name="Expected" fill={darkMode ? "#6B7280" : "#9CA3AF"} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-1">Streak Distribution</h2>
+      <p className={`${subTextClass} mb-4`}>
+        How often each streak length occurred, against the expected count for independent trades
+        at a {(probabilities.win * 100).toFixed(1)}% chance of a win and {(probabilities.loss * 100).toFixed(1)}% of a loss
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
+        <div className={cardClass}>
+          <h3 className={labelClass}>Expected Longest Losing Streak</h3>
+          <p className="text-2xl font-bold text-red-500">{expectedLongestLoss.toFixed(1)}</p>
+          <p className={subTextClass}>Over {stats.totalTrades.toLocaleString()} trades · actual {stats.maxLossStreak}</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Expected Cold Run Cost</h3>
+          <p className="text-2xl font-bold text-red-500">{formatCurrency(-expectedLongestLoss * stats.averageLoss)}</p>
+          <p className={subTextClass}>
+            {(expectedLongestLoss * stats.averageLossR).toFixed(2)}R at the average loss of {formatCurrency(stats.averageLoss)}
+          </p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Expected Longest Winning Streak</h3>
+          <p className="text-2xl font-bold text-green-500">{expectedLongestWin.toFixed(1)}</p>
+          <p className={subTextClass}>Over {stats.totalTrades.toLocaleString()} trades · actual {stats.maxWinStreak}</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Losing Streaks</h3>
+          <p className="text-2xl font-bold">{stats.streaks.lossStreakCounts.reduce((sum, count) => sum + count, 0).toLocaleString()}</p>
+          <p className={subTextClass}>
+            Expected {lossBars.reduce((sum, bar) => sum + bar.expected, 0).toFixed(1)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+        {streakChart('Winning Streaks', winBars, "#10B981")}
+        {streakChart('Losing Streaks', lossBars, "#EF4444")}
+      </div>
+
+      {stats.streaks.worstLosingStreaks.length > 0 && (
+        <div className={`${cardClass} overflow-auto`}>
+          <h3 className="text-lg font-bold mb-4">Costliest Losing Streaks</h3>
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={tableHeaderClass}>Start</th>
+                <th className={tableHeaderClass}>End</th>
+                <th className={tableHeaderClass}>Losses</th>
+                <th className={tableHeaderClass}>Cost $</th>
+                <th className={tableHeaderClass}>Cost R</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.streaks.worstLosingStreaks.map((streak, index) => (
+                <tr key={index}>
+                  <td className={tableCellClass}>{streak.startDate}</td>
+                  <td className={tableCellClass}>{streak.endDate}</td>
+                  <td className={tableCellClass}>{streak.length}</td>
+                  <td className={`${tableCellClass} text-red-500`}>{formatCurrency(streak.pnl)}</td>
+                  <td className={`${tableCellClass} text-red-500`}>{streak.rMultiple.toFixed(2)}R</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreakResults;
@@ -0,0 +1,140 @@
+import { SimulationSettings, SimulationStats, LosingStreak, TradeResult } from './types';
+import { isBootstrapEnabled } from './bootstrap';
+import { isRegimeModelEnabled, getBaselineSettings } from './market-regimes';
+
+const MAX_WORST_LOSING_STREAKS = 5;
+
+type StreakSummary = Pick<SimulationStats, 'maxWinStreak' | 'maxLossStreak' | 'maxWinStreakPeriod' | 'maxLossStreakPeriod' | 'streaks'>;
+
+export interface StreakTracker {
+  recordTrade: (result: TradeResult, date: string, pnl: number, rMultiple: number) => void;
+  // Closes the streak in progress, so call it once the path is done
+  getSummary: () => StreakSummary;
+}
+
+interface OpenStreak extends LosingStreak {
+  result: 'win' | 'loss';
+}
+
+// Follows runs of consecutive wins and losses across trading days; a breakeven trade ends both
+export const createStreakTracker = (): StreakTracker => {
+  const winStreakCounts: number[] = [0];
+  const lossStreakCounts: number[] = [0];
+  const worstLosingStreaks: LosingStreak[] = [];
+  let current: OpenStreak | null = null;
+  let maxWinStreak = 0;
+  let maxLossStreak = 0;
+  let maxWinStreakPeriod = 'N/A to N/A';
+  let maxLossStreakPeriod = 'N/A to N/A';
+
+  const closeStreak = () => {
+    if (!current) return;
+    const { result, ...streak } = current;
+    const counts = result === 'win' ? winStreakCounts : lossStreakCounts;
+    while (counts.length <= streak.length) counts.push(0);
+    counts[streak.length]++;
+
+    if (result === 'loss') {
+      worstLosingStreaks.push(streak);
+      worstLosingStreaks.sort((a, b) => a.pnl - b.pnl);
+      worstLosingStreaks.length = Math.min(worstLosingStreaks.length, MAX_WORST_LOSING_STREAKS);
+    }
+    current = null;
+  };
+
+  const recordTrade = (result: TradeResult, date: string, pnl: number, rMultiple: number) => {
+    if (result === 'breakeven') {
+      closeStreak();
+      return;
+    }
+    if (current?.result !== result) {
+      closeStreak();
+      current = { result, length: 0, startDate: date, endDate: date, pnl: 0, rMultiple: 0 };
+    }
+    const streak: OpenStreak = current;
+    streak.length++;
+    streak.endDate = date;
+    streak.pnl += pnl;
+    streak.rMultiple += rMultiple;
+
+    if (result === 'win' && streak.length > maxWinStreak) {
+      maxWinStreak = streak.length;
+      maxWinStreakPeriod = `${streak.startDate} to ${date}`;
+    } else if (result === 'loss' && streak.length > maxLossStreak) {
+      maxLossStreak = streak.length;
+      maxLossStreakPeriod = `${streak.startDate} to ${date}`;
+    }
+  };
+
+  const getSummary = (): StreakSummary => {
+    closeStreak();
+    return {
+      maxWinStreak,
+      maxLossStreak,
+      maxWinStreakPeriod,
+      maxLossStreakPeriod,
+      streaks: { winStreakCounts, lossStreakCounts, worstLosingStreaks }
+    };
+  };
+
+  return { recordTrade, getSummary };
+};
+
+// Chance of a win and of a loss on any one trade, breakevens included in the denominator.
+// The regime model uses its long-run average win rate; a bootstrap sample its own frequencies.
+export const getOutcomeProbabilities = (params: SimulationSettings): { win: number; loss: number } => {
+  if (isBootstrapEnabled(params)) {
+    const trades = (params.bootstrapSample || []).flat();
+    if (trades.length === 0) return { win: 0, loss: 0 };
+    return {
+      win: trades.filter(rMultiple => rMultiple > 0).length / trades.length,
+      loss: trades.filter(rMultiple => rMultiple < 0).length / trades.length
+    };
+  }
+
+  const winRate = (isRegimeModelEnabled(params) ? getBaselineSettings(params).winRate : params.winRate) / 100;
+  const decided = 1 - (params.breakevenRate || 0) / 100;
+  return { win: decided * winRate, loss: decided * (1 - winRate) };
+};
+
+// Expected number of runs of exactly `length` outcomes in a row, each with chance `probability`, in `trades`
+// independent trades. A run in the middle needs a different outcome on both sides; one at either end only on one.
+export const getExpectedRuns = (probability: number, trades: number, length: number): number => {
+  if (length > trades) return 0;
+  if (length === trades) return probability ** length;
+  const other = 1 - probability;
+  return probability ** length * (2 * other + (trades - length - 1) * other ** 2);
+};
+
+// Theoretical streak counts by length, indexed like StreakStats
+export const getExpectedStreakCounts = (probability: number, trades: number, maxLength: number): number[] => {
+  const counts = [0];
+  for (let length = 1; length <= maxLength; length++) {
+    counts.push(getExpectedRuns(probability, trades, length));
+  }
+  return counts;
+};
+
+// Expected longest run of an outcome with chance `probability` in `trades` independent trades,
+// summing the exact chance of seeing a run of at least each length
+export const getExpectedLongestStreak = (probability: number, trades: number): number => {
+  if (trades <= 0 || probability <= 0) return 0;
+  if (probability >= 1) return trades;
+
+  const other = 1 - probability;
+  // noRun[n] = chance that the first n trades hold no run of `length` or more
+  const noRun = new Float64Array(trades + 1);
+  let expected = 0;
+  for (let length = 1; length <= trades; length++) {
+    const runChance = probability ** length;
+    for (let n = 0; n <= trades; n++) {
+      if (n < length) noRun[n] = 1;
+      else if (n === length) noRun[n] = 1 - runChance;
+      else noRun[n] = noRun[n - 1] - other * runChance * noRun[n - length - 1];
+    }
+    const atLeast = 1 - noRun[trades];
+    expected += atLeast;
+    if (atLeast < 1e-9) break;
+  }
+  return expected;
+};
@@ -0,0 +1,79 @@
+import { SimulationSettings, TaxSettlementFrequency, YearlyTaxSummary } from './types';
+
+export const TAX_SETTLEMENT_OPTIONS: { value: TaxSettlementFrequency; label: string }[] = [
+  { value: 'quarterly', label: 'Quarterly Estimates' },
+  { value: 'year-end', label: 'Year-End' }
+];
+
+export interface TaxLedger {
+  // Add realized trading profit or loss to the current tax year
+  recordGain: (amount: number) => void;
+  // Settle taxes at the end of a trading day; returns the payment (negative for a year-end refund)
+  settle: (year: number, isQuarterEnd: boolean, isYearEnd: boolean) => number;
+  getTotalPaid: () => number;
+  getYearlySummary: () => YearlyTaxSummary[];
+}
+
+export const isTaxEnabled = (params: SimulationSettings): boolean => (params.taxRate || 0) > 0;
+
+// Tracks realized gains per tax year with loss carry-forward across years.
+// Quarterly estimates are paid on year-to-date gains and trued up at year-end.
+export const createTaxLedger = (params: SimulationSettings): TaxLedger => {
+  const rate = (params.taxRate || 0) / 100;
+  const frequency = params.taxSettlement || 'year-end';
+  const yearlySummary: YearlyTaxSummary[] = [];
+
+  let carryForward = 0;
+  let yearToDateGain = 0;
+  let paidThisYear = 0;
+  let totalPaid = 0;
+
+  const recordGain = (amount: number) => {
+    yearToDateGain += amount;
+  };
+
+  const settle = (year: number, isQuarterEnd: boolean, isYearEnd: boolean): number => {
+    if (rate <= 0) return 0;
+    if (!isYearEnd && !(frequency === 'quarterly' && isQuarterEnd)) return 0;
+
+    const carryForwardUsed = Math.min(carryForward, Math.max(0, yearToDateGain));
+    const taxableGain = Math.max(0, yearToDateGain - carryForward);
+    let payment = taxableGain * rate - paidThisYear;
+
+    // Estimates are never refunded mid-year; overpayments come back at year-end
+    if (!isYearEnd) {
+      payment = Math.max(0, payment);
+    }
+
+    paidThisYear += payment;
+    totalPaid += payment;
+
+    if (isYearEnd) {
+      // Losses carry forward; gains use up any carried losses first
+      carryForward = yearToDateGain >= 0
+        ? carryForward - carryForwardUsed
+        : carryForward - yearToDateGain;
+
+      yearlySummary.push({
+        year: String(year),
+        netGain: yearToDateGain,
+        carryForwardUsed,
+        taxableGain,
+        taxPaid: paidThisYear,
+        carryForwardRemaining: carryForward
+      });
+
+      yearToDateGain = 0;
+      paidThisYear = 0;
+    }
+
+    return payment;
+  };
+
+  return {
+    recordGain,
+    settle,
+    getTotalPaid: () => totalPaid,
+    getYearlySummary: () => yearlySummary
+  };
+};
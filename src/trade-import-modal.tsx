@@ -0,0 +1,241 @@
+import React, { useState, useMemo, ChangeEvent } from 'react';
+import { X, Upload, AlertTriangle } from 'lucide-react';
+import { SimulationSettings, SimulationStats } from './types';
+import {
+  ColumnMapping,
+  BROKER_PRESETS,
+  detectPreset,
+  mapColumns,
+  readCsvHeaders,
+  parseTradeHistory,
+  buildImportedStats,
+  createImportSettings,
+  tradesToRSample
+} from './trade-import';
+
+export interface ImportedHistory {
+  name: string;
+  settings: SimulationSettings;
+  stats: SimulationStats;
+}
+
+// Analyzes the history on the results page, or with onSample hands its R-multiples back for bootstrapping
+interface TradeImportModalProps {
+  settings: SimulationSettings;
+  onImport?: (history: ImportedHistory) => void;
+  onSample?: (sample: number[][]) => void;
+  onClose: () => void;
+}
+
+// Show at most this many problems; the count still covers every malformed row
+const MAX_LISTED_ISSUES = 50;
+
+const EMPTY_MAPPING: ColumnMapping = { date: '', pnl: '', risk: '' };
+
+const TradeImportModal: React.FC<TradeImportModalProps> = ({ settings, onImport, onSample, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [presetId, setPresetId] = useState(BROKER_PRESETS[0].id);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [startingEquity, setStartingEquity] = useState(settings.startingEquity);
+  const [readError, setReadError] = useState('');
+
+  const history = useMemo(() => {
+    return csvText ? parseTradeHistory(csvText, mapping) : null;
+  }, [csvText, mapping]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const fileHeaders = readCsvHeaders(text);
+      const preset = detectPreset(fileHeaders);
+      setFileName(file.name);
+      setCsvText(text);
+      setHeaders(fileHeaders);
+      setPresetId(preset.id);
+      setMapping(mapColumns(fileHeaders, preset));
+      setReadError(fileHeaders.length === 0 ? 'The file is empty' : '');
+    } catch (error) {
+      setReadError(`Could not read ${file.name}`);
+    }
+  };
+
+  const handlePresetChange = (id: string) => {
+    const preset = BROKER_PRESETS.find(p => p.id === id) || BROKER_PRESETS[0];
+    setPresetId(preset.id);
+    setMapping(mapColumns(headers, preset));
+  };
+
+  const sampleMode = !!onSample;
+
+  const handleImport = () => {
+    if (!history || history.trades.length === 0) return;
+    if (onSample) {
+      onSample(tradesToRSample(history.trades));
+      return;
+    }
+    const stats = buildImportedStats(history.trades, startingEquity);
+    onImport?.({
+      name: fileName,
+      settings: createImportSettings(history.trades, stats, settings),
+      stats
+    });
+  };
+
+  const darkMode = settings.darkMode;
+
+  const overlayClass = darkMode
+    ? "fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+    : "fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50";
+
+  const contentClass = darkMode
+    ? "bg-gray-800 p-6 rounded-lg shadow-lg w-full max-w-lg max-h-screen overflow-y-auto"
+    : "bg-white p-6 rounded-lg shadow-lg w-full max-w-lg max-h-screen overflow-y-auto";
+
+  const labelClass = darkMode
+    ? "block text-sm font-medium text-gray-300 mb-1"
+    : "block text-sm font-medium text-gray-700 mb-1";
+
+  const inputClass = darkMode
+    ? "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    : "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const helpTextClass = darkMode ? "text-xs text-gray-400 mt-1" : "text-xs text-gray-500 mt-1";
+
+  const columnSelect = (field: keyof ColumnMapping, label: string, optional: boolean) => (
+    <div>
+      <label htmlFor={`import-${field}`} className={labelClass}>{label}</label>
+      <select
+        id={`import-${field}`}
+        className={inputClass}
+        value={mapping[field]}
+        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+      >
+        <option value="">{optional ? 'None' : 'Choose a column'}</option>
+        {headers.map(header => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className={overlayClass}>
+      <div className={contentClass}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium">{sampleMode ? 'Load R-Multiples from Trade History' : 'Import Trade History'}</h3>
+          <button
+            onClick={onClose}
+            className={darkMode
+              ? "p-2 rounded-md hover:bg-gray-700 text-gray-300 hover:text-white transition-colors"
+              : "p-2 rounded-md hover:bg-gray-100 text-gray-600 hover:text-gray-800 transition-colors"}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="import-file" className={labelClass}>Trade History CSV</label>
+          <input
+            type="file"
+            id="import-file"
+            accept=".csv,text/csv"
+            className="text-sm"
+            onChange={handleFileChange}
+          />
+          <p className={helpTextClass}>One row per closed trade. P&L should be net of commissions.</p>
+          {readError && <p className="mt-2 text-sm text-red-500">{readError}</p>}
+        </div>
+
+        {headers.length > 0 && (
+          <>
+            <div className="mb-4">
+              <label htmlFor="import-preset" className={labelClass}>Export Layout</label>
+              <select
+                id="import-preset"
+                className={inputClass}
+                value={presetId}
+                onChange={(e) => handlePresetChange(e.target.value)}
+              >
+                {BROKER_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              {columnSelect('date', 'Date', false)}
+              {columnSelect('pnl', 'P&L', false)}
+              {columnSelect('risk', 'Risk (1R)', true)}
+            </div>
+            {!mapping.risk && (
+              <p className={`${helpTextClass} -mt-2 mb-4`}>Without a risk column the average loss is used as 1R.</p>
+            )}
+
+            {!sampleMode && (
+              <div className="mb-4">
+                <label htmlFor="import-equity" className={labelClass}>Starting Equity ($)</label>
+                <input
+                  type="number"
+                  id="import-equity"
+                  className={inputClass}
+                  value={startingEquity}
+                  onChange={(e) => setStartingEquity(Number(e.target.value))}
+                  min="0"
+                />
+              </div>
+            )}
+
+            {history && (
+              <div className="mb-4 text-sm">
+                <p>{history.trades.length.toLocaleString()} trades read</p>
+                {history.issues.length > 0 && (
+                  <div className="mt-2 text-red-500">
+                    <p className="flex items-center font-medium">
+                      <AlertTriangle size={16} className="mr-2" />
+                      {history.issues.length.toLocaleString()} {history.issues.length === 1 ? 'row' : 'rows'} could not be read
+                    </p>
+                    <ul className="mt-1 max-h-32 overflow-y-auto">
+                      {history.issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                        <li key={issue.row}>Row {issue.row}: {issue.message}</li>
+                      ))}
+                    </ul>
+                    {history.issues.length > MAX_LISTED_ISSUES && (
+                      <p className="mt-1">…and {history.issues.length - MAX_LISTED_ISSUES} more</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            className={darkMode
+              ? "px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600"
+              : "px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"}
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleImport}
+            disabled={!history || history.trades.length === 0 || (!sampleMode && !(startingEquity > 0))}
+          >
+            <Upload size={18} className="mr-2" />
+            {sampleMode ? 'Use as R Sample' : 'Analyze Trades'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradeImportModal;
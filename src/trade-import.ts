@@ -0,0 +1,365 @@
+import { SimulationSettings, SimulationStats, EquityPoint, MonthlyStats, WeeklyStats, DailyStats, TradeRecord, TradeResult } from './types';
+import { parseCsv } from './csv';
+import { createEmptyStats, describeDate } from './simulation-engine';
+import { createDefaultSettings } from './default-settings';
+import { toDateKey, getTradingDaysPerWeek } from './trading-calendar';
+import { buildRMultipleHistogram } from './trade-outcomes';
+import { calculatePerformanceMetrics, getYearsCovered } from './performance-metrics';
+import { findDrawdownEpisodes, getDeepestDrawdown } from './drawdowns';
+import { createStreakTracker } from './streaks';
+import { summarizePeriods } from './period-breakdowns';
+
+export interface ColumnMapping {
+  date: string;
+  pnl: string;
+  risk: string; // '' = no risk column
+}
+
+export interface BrokerPreset {
+  id: string;
+  label: string;
+  // Candidate header names for each column, matched case-insensitively
+  columns: { date: string[]; pnl: string[]; risk: string[] };
+}
+
+export interface ImportedTrade {
+  row: number; // Line number in the file
+  date: Date;
+  pnl: number;
+  risk: number | null;
+}
+
+export interface ImportIssue {
+  row: number;
+  message: string;
+}
+
+export interface TradeHistory {
+  trades: ImportedTrade[];
+  issues: ImportIssue[];
+}
+
+export const BROKER_PRESETS: BrokerPreset[] = [
+  { id: 'generic', label: 'Generic (Date, P&L, Risk)', columns: { date: ['date', 'trade date', 'close date'], pnl: ['p&l', 'pnl', 'profit', 'net p&l'], risk: ['risk', 'initial risk', '1r'] } },
+  { id: 'interactive-brokers', label: 'Interactive Brokers (Flex Query)', columns: { date: ['tradedate', 'date/time'], pnl: ['fifopnlrealized', 'realized p/l'], risk: [] } },
+  { id: 'ninjatrader', label: 'NinjaTrader (Trades)', columns: { date: ['exit time'], pnl: ['profit'], risk: [] } },
+  { id: 'tradovate', label: 'Tradovate (Performance)', columns: { date: ['soldtimestamp', 'boughttimestamp'], pnl: ['pnl'], risk: [] } },
+  { id: 'metatrader', label: 'MetaTrader (Account History)', columns: { date: ['close time', 'time'], pnl: ['profit'], risk: [] } }
+];
+
+const findHeader = (headers: string[], candidates: string[]): string => {
+  return headers.find(header => candidates.includes(header.trim().toLowerCase())) || '';
+};
+
+// Column mapping a preset gives for these headers; unmatched columns are left empty
+export const mapColumns = (headers: string[], preset: BrokerPreset): ColumnMapping => ({
+  date: findHeader(headers, preset.columns.date),
+  pnl: findHeader(headers, preset.columns.pnl),
+  risk: findHeader(headers, preset.columns.risk)
+});
+
+// The first preset that finds both a date and a P&L column
+export const detectPreset = (headers: string[]): BrokerPreset => {
+  return BROKER_PRESETS.find(preset => {
+    const mapping = mapColumns(headers, preset);
+    return mapping.date && mapping.pnl;
+  }) || BROKER_PRESETS[0];
+};
+
+// Money as exported by brokers: currency symbols, thousands separators and (negative) parentheses
+export const parseAmount = (text: string): number | null => {
+  let cleaned = text.trim().replace(/[$€£,\s]/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  if (negative) cleaned = cleaned.slice(1, -1);
+  if (cleaned === '' || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return negative ? -value : value;
+};
+
+// Dates as exported by brokers: ISO, YYYYMMDD, YYYY.MM.DD and US MM/DD/YYYY, with or without a time
+export const parseTradeDate = (text: string): Date | null => {
+  const trimmed = text.trim();
+  let match = trimmed.match(/^(\d{4})[-./]?(\d{2})[-./]?(\d{2})(?:[ T;,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (match) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+    return validDate(Number(year), Number(month), Number(day), Number(hours), Number(minutes), Number(seconds));
+  }
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?/i);
+  if (match) {
+    const [, month, day, year, hours = '0', minutes = '0', seconds = '0', meridiem] = match;
+    const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+    let hour = Number(hours);
+    if (meridiem && meridiem.toUpperCase() === 'PM' && hour < 12) hour += 12;
+    if (meridiem && meridiem.toUpperCase() === 'AM' && hour === 12) hour = 0;
+    return validDate(fullYear, Number(month), Number(day), hour, Number(minutes), Number(seconds));
+  }
+
+  return null;
+};
+
+const validDate = (year: number, month: number, day: number, hours: number, minutes: number, seconds: number): Date | null => {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+export const readCsvHeaders = (text: string): string[] => {
+  return (parseCsv(text)[0] || []).map(header => header.trim());
+};
+
+// Read trades from a CSV export; rows that can't be read are reported, never silently dropped
+export const parseTradeHistory = (text: string, mapping: ColumnMapping): TradeHistory => {
+  const rows = parseCsv(text);
+  const headers = (rows[0] || []).map(header => header.trim());
+  const dateIndex = headers.indexOf(mapping.date);
+  const pnlIndex = headers.indexOf(mapping.pnl);
+  const riskIndex = mapping.risk ? headers.indexOf(mapping.risk) : -1;
+
+  const trades: ImportedTrade[] = [];
+  const issues: ImportIssue[] = [];
+  if (dateIndex < 0 || pnlIndex < 0) {
+    issues.push({ row: 1, message: 'Choose the date and P&L columns' });
+    return { trades, issues };
+  }
+
+  rows.slice(1).forEach((fields, index) => {
+    const row = index + 2;
+    if (fields.every(field => field.trim() === '')) return;
+
+    const date = parseTradeDate(fields[dateIndex] ?? '');
+    const pnl = parseAmount(fields[pnlIndex] ?? '');
+    const riskText = riskIndex >= 0 ? (fields[riskIndex] ?? '').trim() : '';
+    const risk = riskText === '' ? null : parseAmount(riskText);
+
+    if (!date) {
+      issues.push({ row, message: `Unrecognized date "${fields[dateIndex] ?? ''}"` });
+    } else if (pnl === null) {
+      issues.push({ row, message: `Unrecognized P&L "${fields[pnlIndex] ?? ''}"` });
+    } else if (riskText !== '' && (risk === null || risk === 0)) {
+      issues.push({ row, message: `Risk must be a non-zero amount, got "${riskText}"` });
+    } else {
+      trades.push({ row, date, pnl, risk: risk === null ? null : Math.abs(risk) });
+    }
+  });
+
+  return { trades, issues };
+};
+
+// Dollar size of 1R for trades without a risk column: the average loss
+const getFallbackRisk = (trades: ImportedTrade[]): number => {
+  const lossTrades = trades.filter(trade => trade.pnl < 0);
+  return lossTrades.length > 0
+    ? lossTrades.reduce((sum, trade) => sum - trade.pnl, 0) / lossTrades.length
+    : 1;
+};
+
+// R-multiples of imported trades grouped by trading day, ready to bootstrap from
+export const tradesToRSample = (imported: ImportedTrade[]): number[][] => {
+  const trades = [...imported].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const fallbackRisk = getFallbackRisk(trades);
+  const days = new Map<string, number[]>();
+  trades.forEach(trade => {
+    const key = toDateKey(trade.date);
+    const risk = trade.risk ?? fallbackRisk;
+    const rMultiple = Number((risk > 0 ? trade.pnl / risk : 0).toFixed(2));
+    const day = days.get(key);
+    if (day) {
+      day.push(rMultiple);
+    } else {
+      days.set(key, [rMultiple]);
+    }
+  });
+  return Array.from(days.values());
+};
+
+// Turn imported trades into the same stats the simulator produces, so every results view works on real data.
+// Without a risk column the average loss is used as 1R.
+export const buildImportedStats = (imported: ImportedTrade[], startingEquity: number): SimulationStats => {
+  const stats = createEmptyStats();
+  const trades = [...imported].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const fallbackRisk = getFallbackRisk(trades);
+
+  const equityCurve: EquityPoint[] = [];
+  const ledger: TradeRecord[] = [];
+  const monthlyStats: Record<string, MonthlyStats> = {};
+  const weeklyStats: Record<string, WeeklyStats> = {};
+  let equity = startingEquity;
+  let totalR = 0;
+  let totalRisk = 0;
+  let wins = 0;
+  let losses = 0;
+  let winPnl = 0;
+  let lossPnl = 0;
+  let winR = 0;
+  let lossR = 0;
+  let breakevenTrades = 0;
+
+  const streaks = createStreakTracker();
+  const dailyBreakdown: DailyStats[] = [];
+
+  let dayKey = '';
+  let tradeOfDay = 0;
+  let days = 0;
+
+  trades.forEach((trade, index) => {
+    const date = describeDate(trade.date);
+    if (index === 0) {
+      equityCurve.push({ date: date.fullDate, equity, month: date.month, week: date.week, riskPerTrade: trade.risk ?? fallbackRisk });
+    }
+    if (date.fullDate !== dayKey) {
+      dayKey = date.fullDate;
+      tradeOfDay = 0;
+      days++;
+      dailyBreakdown.push({
+        date: date.fullDate,
+        dateKey: toDateKey(date.dateObj),
+        dayOfWeek: date.dateObj.getDay(),
+        wins: 0,
+        losses: 0,
+        profitLoss: 0,
+        trades: 0,
+        fees: 0
+      });
+    }
+    tradeOfDay++;
+
+    const risk = trade.risk ?? fallbackRisk;
+    const rMultiple = risk > 0 ? trade.pnl / risk : 0;
+    const result: TradeResult = trade.pnl > 0 ? 'win' : trade.pnl < 0 ? 'loss' : 'breakeven';
+    equity += trade.pnl;
+    totalR += rMultiple;
+    totalRisk += risk;
+
+    if (!monthlyStats[date.month]) {
+      monthlyStats[date.month] = { month: date.month, wins: 0, losses: 0, profitLoss: 0, trades: 0, fees: 0 };
+    }
+    if (!weeklyStats[date.week]) {
+      weeklyStats[date.week] = { week: date.week, wins: 0, losses: 0, profitLoss: 0, trades: 0, fees: 0 };
+    }
+    const month = monthlyStats[date.month];
+    const week = weeklyStats[date.week];
+    const day = dailyBreakdown[dailyBreakdown.length - 1];
+    month.trades++;
+    week.trades++;
+    day.trades++;
+    month.profitLoss += trade.pnl;
+    week.profitLoss += trade.pnl;
+    day.profitLoss += trade.pnl;
+
+    if (result === 'win') {
+      wins++;
+      winPnl += trade.pnl;
+      winR += rMultiple;
+      month.wins++;
+      week.wins++;
+      day.wins++;
+    } else if (result === 'loss') {
+      losses++;
+      lossPnl -= trade.pnl;
+      lossR -= rMultiple;
+      month.losses++;
+      week.losses++;
+      day.losses++;
+    } else {
+      breakevenTrades++;
+    }
+    streaks.recordTrade(result, date.fullDate, trade.pnl, rMultiple);
+
+    ledger.push({
+      sequence: index + 1,
+      date: date.fullDate,
+      month: date.month,
+      week: date.week,
+      index: tradeOfDay,
+      result,
+      rMultiple,
+      risk,
+      pnl: trade.pnl,
+      equity
+    });
+
+    // One equity point per day, after its last trade
+    const nextTrade = trades[index + 1];
+    if (!nextTrade || describeDate(nextTrade.date).fullDate !== date.fullDate) {
+      equityCurve.push({ date: date.fullDate, equity, month: date.month, week: date.week, riskPerTrade: risk });
+    }
+  });
+
+  const totalProfit = equity - startingEquity;
+  const averageWinR = wins > 0 ? winR / wins : 0;
+  const averageLossR = losses > 0 ? lossR / losses : 0;
+  const avgRPerDay = days > 0 ? totalR / days : 0;
+  const drawdownEpisodes = findDrawdownEpisodes(equityCurve);
+  const deepestDrawdown = getDeepestDrawdown(drawdownEpisodes);
+  const monthlyBreakdown = Object.values(monthlyStats).map(month => ({
+    ...month,
+    winRate: (month.wins / (month.wins + month.losses) * 100 || 0).toFixed(2)
+  }));
+  const weeklyBreakdown = Object.values(weeklyStats).map(week => ({
+    ...week,
+    winRate: (week.wins / (week.wins + week.losses) * 100 || 0).toFixed(2)
+  }));
+
+  return {
+    ...stats,
+    winRate: wins / (wins + losses) * 100 || 0,
+    avgRPerDay,
+    avgRPerWeek: avgRPerDay * 5,
+    avgTradesPerDay: days > 0 ? trades.length / days : 0,
+    initialEquity: startingEquity,
+    finalEquity: equity,
+    totalProfit,
+    maxDrawdown: deepestDrawdown?.depthPercent ?? 0,
+    maxDrawdownPeriod: `${deepestDrawdown?.peakDate || 'N/A'} to ${deepestDrawdown?.troughDate || 'N/A'}`,
+    drawdownEpisodes,
+    ...streaks.getSummary(),
+    equityCurve,
+    trades: ledger,
+    monthlyBreakdown,
+    weeklyBreakdown,
+    dailyBreakdown,
+    quarterlyBreakdown: summarizePeriods(equityCurve, dailyBreakdown, 'quarter'),
+    yearlyBreakdown: summarizePeriods(equityCurve, dailyBreakdown, 'year'),
+    totalTrades: trades.length,
+    riskRewardRatio: averageLossR > 0 ? Number((averageWinR / averageLossR).toFixed(2)) : 0,
+    averageRiskPerTrade: trades.length > 0 ? totalRisk / trades.length : 0,
+    // Broker P&L is already net of commissions
+    grossProfit: totalProfit,
+    afterTaxProfit: totalProfit,
+    averageWin: wins > 0 ? winPnl / wins : 0,
+    averageLoss: losses > 0 ? lossPnl / losses : 0,
+    averageWinR,
+    averageLossR,
+    breakevenTrades,
+    rMultipleHistogram: buildRMultipleHistogram(ledger.map(trade => trade.rMultiple)),
+    performance: calculatePerformanceMetrics({
+      equityCurve,
+      tradePnls: ledger.map(trade => trade.pnl),
+      tradeRMultiples: ledger.map(trade => trade.rMultiple),
+      monthlyBreakdown,
+      weeklyBreakdown,
+      years: trades.length > 0 ? getYearsCovered(trades[0].date, trades[trades.length - 1].date) : 0,
+      periodsPerYear: getTradingDaysPerWeek() * 52
+    })
+  };
+};
+
+// Settings describing an imported history, used to label the results page
+export const createImportSettings = (trades: ImportedTrade[], stats: SimulationStats, base: SimulationSettings): SimulationSettings => {
+  // A reduce rather than spreading every timestamp into Math.min, which overflows the stack on large exports
+  const first = trades.reduce((earliest, trade) => Math.min(earliest, trade.date.getTime()), Infinity);
+  const last = trades.reduce((latest, trade) => Math.max(latest, trade.date.getTime()), -Infinity);
+  return {
+    ...createDefaultSettings(),
+    darkMode: base.darkMode,
+    startDate: trades.length > 0 ? toDateKey(new Date(first)) : base.startDate,
+    endDate: trades.length > 0 ? toDateKey(new Date(last)) : base.endDate,
+    startingEquity: stats.initialEquity,
+    winRate: Number(stats.winRate.toFixed(2)),
+    breakevenRate: stats.totalTrades > 0 ? Number((stats.breakevenTrades / stats.totalTrades * 100).toFixed(2)) : 0,
+    riskRewardRatio: stats.riskRewardRatio,
+    riskPerTrade: Math.round(stats.averageRiskPerTrade),
+    tradesPerDay: Math.round(stats.avgTradesPerDay),
+    seed: undefined
+  };
+};
@@ -0,0 +1,230 @@
+import React, { useState, useMemo, useEffect, useRef, UIEvent } from 'react';
+import { ArrowUpDown, Filter } from 'lucide-react';
+import { TradeRecord, TradeResult } from './types';
+
+export interface TradeLogFilter {
+  result: TradeResult | 'all';
+  month: string; // '' = every month
+  week: string;  // '' = every week
+  minPnl: string; // Raw input; '' = no bound
+  maxPnl: string;
+}
+
+export const EMPTY_TRADE_LOG_FILTER: TradeLogFilter = { result: 'all', month: '', week: '', minPnl: '', maxPnl: '' };
+
+type SortKey = 'sequence' | 'rMultiple' | 'risk' | 'pnl' | 'equity';
+
+interface TradeLogProps {
+  trades: TradeRecord[];
+  months: string[];
+  weeks: string[];
+  filter: TradeLogFilter;
+  onFilterChange: (filter: TradeLogFilter) => void;
+  darkMode: boolean;
+}
+
+// Only the rows in view are rendered, so long runs with tens of thousands of trades stay responsive
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN_ROWS = 10;
+
+const RESULT_LABELS: Record<TradeResult, string> = {
+  win: 'Win',
+  loss: 'Loss',
+  breakeven: 'Breakeven'
+};
+
+const TradeLog: React.FC<TradeLogProps> = ({ trades, months, weeks, filter, onFilterChange, darkMode }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('sequence');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const visibleTrades = useMemo(() => {
+    const minPnl = filter.minPnl === '' ? -Infinity : Number(filter.minPnl);
+    const maxPnl = filter.maxPnl === '' ? Infinity : Number(filter.maxPnl);
+    const filtered = trades.filter(trade =>
+      (filter.result === 'all' || trade.result === filter.result)
+      && (!filter.month || trade.month === filter.month)
+      && (!filter.week || trade.week === filter.week)
+      && !(trade.pnl < minPnl)
+      && !(trade.pnl > maxPnl)
+    );
+    const direction = sortAscending ? 1 : -1;
+    return filtered.sort((a, b) => (a[sortKey] - b[sortKey]) * direction);
+  }, [trades, filter, sortKey, sortAscending]);
+
+  // Start from the top whenever the rows change underneath the viewport
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filter, sortKey, sortAscending]);
+
+  const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'sequence');
+    }
+  };
+
+  const updateFilter = (changes: Partial<TradeLogFilter>) => {
+    onFilterChange({ ...filter, ...changes });
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(visibleTrades.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const rows = visibleTrades.slice(firstRow, lastRow);
+
+  const inputClass = darkMode
+    ? "px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+    : "px-2 py-1 bg-white border border-gray-300 rounded-md text-sm";
+
+  const tableHeaderClass = darkMode
+    ? "py-2 px-4 border-b border-gray-700 text-left sticky top-0 bg-gray-800"
+    : "py-2 px-4 border-b text-left sticky top-0 bg-white";
+
+  const tableCellClass = darkMode
+    ? "px-4 border-b border-gray-700 whitespace-nowrap"
+    : "px-4 border-b whitespace-nowrap";
+
+  const isFiltered = filter.result !== 'all' || !!filter.month || !!filter.week || filter.minPnl !== '' || filter.maxPnl !== '';
+
+  const sortableHeader = (key: SortKey, label: string) => (
+    <th className={`${tableHeaderClass} cursor-pointer select-none`} onClick={() => handleSort(key)}>
+      <span className="inline-flex items-center">
+        {label}
+        <ArrowUpDown size={14} className={`ml-1 ${sortKey === key ? 'text-blue-500' : 'opacity-40'}`} />
+      </span>
+    </th>
+  );
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <Filter size={16} className={darkMode ? 'text-gray-400' : 'text-gray-500'} />
+        <select
+          className={inputClass}
+          value={filter.result}
+          onChange={(e) => updateFilter({ result: e.target.value as TradeLogFilter['result'] })}
+          aria-label="Outcome"
+        >
+          <option value="all">All outcomes</option>
+          {(Object.keys(RESULT_LABELS) as TradeResult[]).map(result => (
+            <option key={result} value={result}>{RESULT_LABELS[result]}</option>
+          ))}
+        </select>
+        <select
+          className={inputClass}
+          value={filter.month}
+          onChange={(e) => updateFilter({ month: e.target.value })}
+          aria-label="Month"
+        >
+          <option value="">All months</option>
+          {months.map(month => (
+            <option key={month} value={month}>{month}</option>
+          ))}
+        </select>
+        <select
+          className={inputClass}
+          value={filter.week}
+          onChange={(e) => updateFilter({ week: e.target.value })}
+          aria-label="Week"
+        >
+          <option value="">All weeks</option>
+          {weeks.map(week => (
+            <option key={week} value={week}>{week}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className={`${inputClass} w-28`}
+          value={filter.minPnl}
+          onChange={(e) => updateFilter({ minPnl: e.target.value })}
+          placeholder="Min P&L"
+          aria-label="Minimum P&L"
+        />
+        <input
+          type="number"
+          className={`${inputClass} w-28`}
+          value={filter.maxPnl}
+          onChange={(e) => updateFilter({ maxPnl: e.target.value })}
+          placeholder="Max P&L"
+          aria-label="Maximum P&L"
+        />
+        {isFiltered && (
+          <button
+            type="button"
+            className="text-blue-500 hover:underline"
+            onClick={() => onFilterChange(EMPTY_TRADE_LOG_FILTER)}
+          >
+            Clear
+          </button>
+        )}
+        <span className={`ml-auto ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {visibleTrades.length.toLocaleString()} of {trades.length.toLocaleString()} trades
+        </span>
+      </div>
+
+      {/* Virtualized table */}
+      <div
+        ref={viewportRef}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={handleScroll}
+      >
+        <table className="min-w-full">
+          <thead>
+            <tr>
+              {sortableHeader('sequence', '#')}
+              <th className={tableHeaderClass}>Date</th>
+              <th className={tableHeaderClass}>Trade of Day</th>
+              <th className={tableHeaderClass}>Outcome</th>
+              {sortableHeader('rMultiple', 'R-Multiple')}
+              {sortableHeader('risk', 'Risk')}
+              {sortableHeader('pnl', 'P&L')}
+              {sortableHeader('equity', 'Equity After')}
+            </tr>
+          </thead>
+          <tbody>
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {rows.map(trade => (
+              <tr key={trade.sequence} style={{ height: ROW_HEIGHT }}>
+                <td className={tableCellClass}>{trade.sequence}</td>
+                <td className={tableCellClass}>{trade.date}</td>
+                <td className={tableCellClass}>{trade.index}</td>
+                <td className={tableCellClass}>
+                  <span className={trade.result === 'win' ? 'text-green-500' : trade.result === 'loss' ? 'text-red-500' : ''}>
+                    {RESULT_LABELS[trade.result]}
+                  </span>
+                </td>
+                <td className={tableCellClass}>{trade.rMultiple.toFixed(2)}R</td>
+                <td className={tableCellClass}>${Math.round(trade.risk).toLocaleString()}</td>
+                <td className={tableCellClass}>
+                  <span className={trade.pnl >= 0 ? 'text-green-500' : 'text-red-500'}>
+                    ${Math.round(trade.pnl).toLocaleString()}
+                  </span>
+                </td>
+                <td className={tableCellClass}>${Math.round(trade.equity).toLocaleString()}</td>
+              </tr>
+            ))}
+            {lastRow < visibleTrades.length && <tr style={{ height: (visibleTrades.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {visibleTrades.length === 0 && (
+          <p className={`py-4 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            No trades match the filters
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TradeLog;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { SimulationSettings, SimulationStats } from './types';
+import { OUTCOME_DISTRIBUTIONS } from './trade-outcomes';
+import { BOOTSTRAP_MODES, isBootstrapEnabled, summarizeRSample } from './bootstrap';
+
+interface TradeOutcomeResultsProps {
+  params: SimulationSettings;
+  stats: SimulationStats;
+  darkMode: boolean;
+}
+
+const distributionLabel = (distribution?: string): string => {
+  return OUTCOME_DISTRIBUTIONS.find(option => option.value === (distribution || 'fixed'))?.label || 'Fixed';
+};
+
+const TradeOutcomeResults: React.FC<TradeOutcomeResultsProps> = ({ params, stats, darkMode }) => {
+  const cardClass = darkMode
+    ? "bg-gray-800 p-4 rounded-md shadow-sm"
+    : "bg-white p-4 rounded-md shadow-sm";
+
+  const labelClass = darkMode
+    ? "text-gray-300 text-sm"
+    : "text-gray-500 text-sm";
+
+  const subTextClass = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const axisStroke = darkMode ? "#4B5563" : "#9CA3AF";
+  const axisTick = { fontSize: 10, fill: darkMode ? "#D1D5DB" : "#374151" };
+
+  const breakevenPercent = stats.totalTrades > 0 ? (stats.breakevenTrades / stats.totalTrades) * 100 : 0;
+  const sample = isBootstrapEnabled(params) ? summarizeRSample(params.bootstrapSample) : null;
+  const bootstrapMode = BOOTSTRAP_MODES.find(mode => mode.value === (params.bootstrapMode || 'trade'))?.label;
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-1">Trade Outcomes</h2>
+      <p className={`${subTextClass} mb-4`}>
+        {sample
+          ? `Bootstrapped from ${sample.trades.toLocaleString()} historical trades over ${sample.days.toLocaleString()} days · Resampled ${bootstrapMode?.toLowerCase()}`
+          : `Wins: ${distributionLabel(params.winDistribution)} · Losses: ${distributionLabel(params.lossDistribution)}`}
+      </p>
+      {sample && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
+          <div className={cardClass}>
+            <h3 className={labelClass}>Sample Win Rate</h3>
+            <p className="text-2xl font-bold">{sample.winRate.toFixed(2)}%</p>
+            <p className={subTextClass}>Breakevens excluded</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Sample Expectancy</h3>
+            <p className={`text-2xl font-bold ${sample.expectancy >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {sample.expectancy.toFixed(2)}R
+            </p>
+            <p className={subTextClass}>Per trade, before costs</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Sample Payoff Ratio</h3>
+            <p className="text-2xl font-bold">{sample.payoffRatio.toFixed(2)}</p>
+            <p className={subTextClass}>{sample.averageWinR.toFixed(2)}R avg win / {sample.averageLossR.toFixed(2)}R avg loss</p>
+          </div>
+          <div className={cardClass}>
+            <h3 className={labelClass}>Sample Trades per Day</h3>
+            <p className="text-2xl font-bold">{sample.tradesPerDay.toFixed(1)}</p>
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
+        <div className={cardClass}>
+          <h3 className={labelClass}>Avg Win</h3>
+          <p className="text-2xl font-bold text-green-500">${Math.round(stats.averageWin).toLocaleString()}</p>
+          <p className={subTextClass}>{stats.averageWinR.toFixed(2)}R after costs</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Avg Loss</h3>
+          <p className="text-2xl font-bold text-red-500">-${Math.round(stats.averageLoss).toLocaleString()}</p>
+          <p className={subTextClass}>-{stats.averageLossR.toFixed(2)}R after costs</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Breakeven Trades</h3>
+          <p className="text-2xl font-bold">{stats.breakevenTrades.toLocaleString()}</p>
+          <p className={subTextClass}>{breakevenPercent.toFixed(1)}% of trades</p>
+        </div>
+        <div className={cardClass}>
+          <h3 className={labelClass}>Slipped Stops</h3>
+          <p className={`text-2xl font-bold ${stats.outsizedLosses > 0 ? 'text-red-500' : ''}`}>
+            {stats.outsizedLosses.toLocaleString()}
+          </p>
+          {!sample && (params.outsizedLossRate || 0) > 0 && (
+            <p className={subTextClass}>Losses of {params.outsizedLossR}R</p>
+          )}
+        </div>
+      </div>
+
+      {/* Realized R-multiple histogram */}
+      <div className={cardClass}>
+        <h3 className="text-lg font-bold mb-4">Realized R-Multiples</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={stats.rMultipleHistogram}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? "#374151" : "#e5e7eb"} />
+              <XAxis dataKey="label" tick={axisTick} stroke={axisStroke} />
+              <YAxis tick={{ fill: darkMode ? "#D1D5DB" : "#374151" }} stroke={axisStroke} allowDecimals={false} />
+              <Tooltip
+                formatter={(value: number) => [value.toLocaleString(), 'Trades']}
+                labelFormatter={(label: string) => `From ${label}`}
+                contentStyle={{
+                  backgroundColor: darkMode ? "#1F2937" : "#FFFFFF",
+                  borderColor: darkMode ? "#4B5563" : "#E5E7EB",
+                  color: darkMode ? "#F3F4F6" : "#111827"
+                }}
+              />
+              <Bar dataKey="count">
+                {stats.rMultipleHistogram.map(bin => (
+                  <Cell key={bin.label} fill={bin.rangeStart >= 0 ? "#10B981" : "#EF4444"} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradeOutcomeResults;
@@ -0,0 +1,186 @@
+import { SimulationSettings, OutcomeDistribution, RMultipleBucket, TradeResult, HistogramBin, RegimeSettings } from './types';
+import { RandomSource, RandomStreams } from './random';
+
+export const DEFAULT_WIN_STD_DEV_R = 0.5;
+export const DEFAULT_LOSS_STD_DEV_R = 0.2;
+export const DEFAULT_OUTSIZED_LOSS_R = 3;
+
+const R_HISTOGRAM_BIN_WIDTH = 0.5;
+const MAX_R_HISTOGRAM_BINS = 40;
+
+export const OUTCOME_DISTRIBUTIONS: { value: OutcomeDistribution; label: string }[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'lognormal', label: 'Lognormal' },
+  { value: 'custom', label: 'Custom R-Multiple Histogram' }
+];
+
+export interface TradeOutcome {
+  result: TradeResult;
+  rMultiple: number; // Gross result in R, negative for losses
+  outsized: boolean; // A loss that slipped past the stop
+}
+
+// Parse "R:weight" pairs such as "0.5:20, 1:50, 3:30"; returns null when the text is invalid
+export const parseRMultipleHistogram = (text: string): RMultipleBucket[] | null => {
+  const entries = text.split(',').map(entry => entry.trim()).filter(entry => entry !== '');
+  if (entries.length === 0) return null;
+
+  const buckets: RMultipleBucket[] = [];
+  for (const entry of entries) {
+    const [rText, weightText] = entry.split(':');
+    const rMultiple = Number(rText);
+    const weight = weightText === undefined ? 1 : Number(weightText);
+    if (!Number.isFinite(rMultiple) || rMultiple < 0 || !Number.isFinite(weight) || weight < 0) {
+      return null;
+    }
+    buckets.push({ rMultiple, weight });
+  }
+
+  return buckets.some(bucket => bucket.weight > 0) ? buckets : null;
+};
+
+export const formatRMultipleHistogram = (buckets?: RMultipleBucket[]): string => {
+  return (buckets || []).map(bucket => `${bucket.rMultiple}:${bucket.weight}`).join(', ');
+};
+
+// Average size of a win in R before costs, used for previews
+export const getExpectedWinR = (params: SimulationSettings): number => {
+  if (params.winDistribution !== 'custom') return params.riskRewardRatio;
+  const buckets = params.winHistogram || [];
+  const totalWeight = buckets.reduce((sum, bucket) => sum + bucket.weight, 0);
+  if (totalWeight <= 0) return params.riskRewardRatio;
+  return buckets.reduce((sum, bucket) => sum + bucket.rMultiple * bucket.weight, 0) / totalWeight;
+};
+
+// Standard normal draw (Box-Muller)
+const drawStandardNormal = (random: RandomSource): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Returns a sampler for the size (in R) of a win or a loss
+const createSizeSampler = (
+  distribution: OutcomeDistribution,
+  mean: number,
+  stdDev: number,
+  histogram: RMultipleBucket[] | undefined,
+  random: RandomSource
+): (() => number) => {
+  switch (distribution) {
+    case 'normal':
+      if (stdDev <= 0) return () => mean;
+      return () => Math.max(0, mean + stdDev * drawStandardNormal(random));
+
+    case 'lognormal': {
+      if (stdDev <= 0 || mean <= 0) return () => mean;
+      // Pick the underlying normal so the lognormal keeps the requested mean and spread
+      const sigmaSquared = Math.log(1 + (stdDev / mean) ** 2);
+      const mu = Math.log(mean) - sigmaSquared / 2;
+      const sigma = Math.sqrt(sigmaSquared);
+      return () => Math.exp(mu + sigma * drawStandardNormal(random));
+    }
+
+    case 'custom': {
+      const buckets = (histogram || []).filter(bucket => bucket.weight > 0);
+      const totalWeight = buckets.reduce((sum, bucket) => sum + bucket.weight, 0);
+      if (totalWeight <= 0) return () => mean;
+      return () => {
+        let target = random() * totalWeight;
+        for (const bucket of buckets) {
+          target -= bucket.weight;
+          if (target < 0) return bucket.rMultiple;
+        }
+        return buckets[buckets.length - 1].rMultiple;
+      };
+    }
+
+    default:
+      return () => mean;
+  }
+};
+
+// Win rate and R:R for the current market regime; win sizes scale with its R:R
+export type TradeConditions = Pick<RegimeSettings, 'winRate' | 'riskRewardRatio'>;
+
+// Draws the outcome of each trade: breakeven, a win, or a loss, sized by the configured distributions.
+// The breakeven, win/loss and slipped-stop rolls are each drawn on every call, so changing one of those
+// rates leaves the other rolls of every trade unchanged.
+export const createTradeOutcomeSampler = (
+  params: SimulationSettings,
+  streams: Pick<RandomStreams, 'outcome' | 'breakeven' | 'outsized' | 'size'>
+): ((conditions?: TradeConditions) => TradeOutcome) => {
+  const winRate = params.winRate / 100;
+  const breakevenRate = (params.breakevenRate || 0) / 100;
+  const outsizedLossRate = (params.outsizedLossRate || 0) / 100;
+  const outsizedLossR = params.outsizedLossR ?? DEFAULT_OUTSIZED_LOSS_R;
+
+  const sampleWin = createSizeSampler(
+    params.winDistribution || 'fixed',
+    params.riskRewardRatio,
+    params.winStdDevR ?? DEFAULT_WIN_STD_DEV_R,
+    params.winHistogram,
+    streams.size
+  );
+  const sampleLoss = createSizeSampler(
+    params.lossDistribution || 'fixed',
+    1,
+    params.lossStdDevR ?? DEFAULT_LOSS_STD_DEV_R,
+    params.lossHistogram,
+    streams.size
+  );
+
+  return (conditions) => {
+    const breakevenRoll = streams.breakeven();
+    const outcomeRoll = streams.outcome();
+    const outsizedRoll = streams.outsized();
+    if (breakevenRoll < breakevenRate) {
+      return { result: 'breakeven', rMultiple: 0, outsized: false };
+    }
+    if (outcomeRoll < (conditions ? conditions.winRate / 100 : winRate)) {
+      const rewardScale = conditions ? conditions.riskRewardRatio / params.riskRewardRatio : 1;
+      return { result: 'win', rMultiple: sampleWin() * rewardScale, outsized: false };
+    }
+    if (outsizedRoll < outsizedLossRate) {
+      return { result: 'loss', rMultiple: -outsizedLossR, outsized: true };
+    }
+    return { result: 'loss', rMultiple: -sampleLoss(), outsized: false };
+  };
+};
+
+// Histogram of R-multiples in half-R bins, widened when the range would need too many bins
+export const buildRMultipleHistogram = (rMultiples: ArrayLike<number>): HistogramBin[] => {
+  if (rMultiples.length === 0) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < rMultiples.length; i++) {
+    min = Math.min(min, rMultiples[i]);
+    max = Math.max(max, rMultiples[i]);
+  }
+
+  const binWidth = Math.max(
+    R_HISTOGRAM_BIN_WIDTH,
+    Math.ceil((max - min) / MAX_R_HISTOGRAM_BINS / R_HISTOGRAM_BIN_WIDTH) * R_HISTOGRAM_BIN_WIDTH
+  );
+  const firstBin = Math.floor(min / binWidth);
+  const binCount = Math.floor(max / binWidth) - firstBin + 1;
+
+  const bins: HistogramBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    const rangeStart = (firstBin + i) * binWidth;
+    bins.push({
+      label: `${rangeStart}R`,
+      rangeStart,
+      rangeEnd: rangeStart + binWidth,
+      count: 0
+    });
+  }
+
+  for (let i = 0; i < rMultiples.length; i++) {
+    bins[Math.floor(rMultiples[i] / binWidth) - firstBin].count++;
+  }
+
+  return bins;
+};
@@ -0,0 +1,132 @@
+import { TradingCalendar } from './types';
+
+// Share of a full session traded on an early-close day (1 p.m. instead of 4 p.m. for US equities)
+export const EARLY_CLOSE_SESSION = 0.5;
+
+export const TRADING_CALENDARS: { value: TradingCalendar; label: string }[] = [
+  { value: 'weekdays', label: 'Weekdays Only (No Holidays)' },
+  { value: 'nyse', label: 'US Equities (NYSE Holidays & Early Closes)' },
+  { value: 'cme', label: 'CME Futures (Globex Holiday Sessions)' },
+  { value: 'crypto', label: 'Crypto (24/7)' }
+];
+
+// Trading days in a normal week, used to scale daily results to weekly ones
+export const getTradingDaysPerWeek = (calendar: TradingCalendar = 'weekdays'): number => {
+  return calendar === 'crypto' ? 7 : 5;
+};
+
+// Trades taken in a session; early closes take a proportional share of the usual trades
+export const getSessionTrades = (tradesPerDay: number, sessionLength: number): number => {
+  return Math.round(tradesPerDay * sessionLength);
+};
+
+// Local YYYY-MM-DD key, the format of date inputs and blackout dates
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse blackout dates typed as YYYY-MM-DD separated by commas, spaces or new lines
+export const parseBlackoutDates = (text: string): string[] => {
+  return text.split(/[\s,]+/).filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(entry));
+};
+
+// nth weekday (0 = Sunday) of a month; a negative n counts from the end of the month
+const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  if (n > 0) {
+    const first = new Date(year, month, 1);
+    return new Date(year, month, 1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+  }
+  const last = new Date(year, month + 1, 0);
+  return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7) + (n + 1) * 7);
+};
+
+// Easter Sunday (anonymous Gregorian algorithm)
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// Fixed-date holidays falling on a weekend are observed on the Friday before or the Monday after
+const observed = (year: number, month: number, day: number): Date => {
+  const date = new Date(year, month, day);
+  if (date.getDay() === 6) return new Date(year, month, day - 1);
+  if (date.getDay() === 0) return new Date(year, month, day + 1);
+  return date;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Session length for each holiday of a year: 0 = closed, EARLY_CLOSE_SESSION = early close
+const buildHolidaySessions = (calendar: TradingCalendar, year: number): Map<string, number> => {
+  const sessions = new Map<string, number>();
+  if (calendar !== 'nyse' && calendar !== 'cme') return sessions;
+
+  const set = (date: Date, session: number) => {
+    // Only weekdays matter, and a full closure wins over an early close on the same day
+    if (date.getDay() === 0 || date.getDay() === 6) return;
+    const key = toDateKey(date);
+    sessions.set(key, Math.min(sessions.get(key) ?? 1, session));
+  };
+
+  // New Year's Day is not moved back to Friday when it falls on a Saturday
+  const newYearsDay = new Date(year, 0, 1);
+  const christmas = observed(year, 11, 25);
+  const thanksgiving = nthWeekday(year, 10, 4, 4);
+
+  // Exchange-wide closures on both calendars
+  set(newYearsDay.getDay() === 0 ? new Date(year, 0, 2) : newYearsDay, 0);
+  set(addDays(easterSunday(year), -2), 0);
+  set(christmas, 0);
+
+  // Federal holidays close the stock exchange; Globex trades an abbreviated session instead
+  const federalSession = calendar === 'nyse' ? 0 : EARLY_CLOSE_SESSION;
+  set(nthWeekday(year, 0, 1, 3), federalSession);  // Martin Luther King Jr. Day
+  set(nthWeekday(year, 1, 1, 3), federalSession);  // Washington's Birthday
+  set(nthWeekday(year, 4, 1, -1), federalSession); // Memorial Day
+  if (year >= 2022) set(observed(year, 5, 19), federalSession); // Juneteenth
+  set(observed(year, 6, 4), federalSession);       // Independence Day
+  set(nthWeekday(year, 8, 1, 1), federalSession);  // Labor Day
+  set(thanksgiving, federalSession);
+
+  // Early closes ahead of and after the big holidays
+  set(new Date(year, 6, 3), EARLY_CLOSE_SESSION);
+  set(addDays(thanksgiving, 1), EARLY_CLOSE_SESSION);
+  set(new Date(year, 11, 24), EARLY_CLOSE_SESSION);
+
+  return sessions;
+};
+
+const holidayCache = new Map<string, Map<string, number>>();
+
+// Share of a full session traded on a date: 1 for a normal day, 0 when the market is closed
+export const getSessionLength = (date: Date, calendar: TradingCalendar = 'weekdays', blackoutDates: string[] = []): number => {
+  const key = toDateKey(date);
+  if (blackoutDates.includes(key)) return 0;
+  if (calendar === 'crypto') return 1;
+  if (date.getDay() === 0 || date.getDay() === 6) return 0;
+
+  const cacheKey = `${calendar}-${date.getFullYear()}`;
+  let sessions = holidayCache.get(cacheKey);
+  if (!sessions) {
+    sessions = buildHolidaySessions(calendar, date.getFullYear());
+    holidayCache.set(cacheKey, sessions);
+  }
+  return sessions.get(key) ?? 1;
+};
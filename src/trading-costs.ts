@@ -0,0 +1,35 @@
+import { SimulationSettings, CommissionModel } from './types';
+
+export const DEFAULT_STOP_DISTANCE_PERCENT = 1;
+
+export const COMMISSION_MODELS: { value: CommissionModel; label: string }[] = [
+  { value: 'flat', label: 'Flat Fee per Trade' },
+  { value: 'per-contract', label: 'Per Contract / Share' },
+  { value: 'percent-of-notional', label: '% of Notional Value' }
+];
+
+// Notional value of a position, derived from the risk and the stop distance (% of entry price)
+export const calculateNotional = (params: SimulationSettings, riskPerTrade: number): number => {
+  const stopDistancePercent = params.stopDistancePercent || DEFAULT_STOP_DISTANCE_PERCENT;
+  return riskPerTrade / (stopDistancePercent / 100);
+};
+
+// Round-trip commission charged on one trade
+export const calculateCommission = (params: SimulationSettings, riskPerTrade: number): number => {
+  switch (params.commissionModel || 'flat') {
+    case 'per-contract':
+      return (params.feesPerTrade || 0) * (params.contractsPerTrade || 1);
+    case 'percent-of-notional':
+      return calculateNotional(params, riskPerTrade) * ((params.commissionPercent || 0) / 100);
+    default:
+      return params.feesPerTrade || 0;
+  }
+};
+
+// Random adverse slippage on one trade, uniform between 0 and twice the configured average (in R).
+// The roll is drawn by the caller for every trade, so it is the same whether slippage is on or off.
+export const drawSlippage = (params: SimulationSettings, riskPerTrade: number, roll: number): number => {
+  const averageSlippageR = params.averageSlippageR || 0;
+  if (averageSlippageR <= 0) return 0;
+  return roll * 2 * averageSlippageR * riskPerTrade;
+};
@@ -1,38 +1,229 @@
 import React, { useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
 import TradingSimulationSettings from './trading-simulation-settings';
 import AnnualTradingResults from './annual-trading-results';
-import { SimulationSettings } from './types';
+import SimulationProgress from './simulation-progress';
+import ScenarioComparisonView from './scenario-comparison-view';
+import ParameterSweepView from './parameter-sweep-view';
+import { SimulationSettings, SimulationRunResult, Scenario, ScenarioResult, SweepRequest, SweepResult } from './types';
+import { generateSeed } from './random';
+import { createDefaultSettings } from './default-settings';
+import { useSimulationRunner } from './use-simulation-runner';
+import { ImportedHistory } from './trade-import-modal';
+import { resolveScenarioSeeds } from './scenario-comparison';
+import { getSweepCellSettings } from './parameter-sweep';
+
+type AppView = 'settings' | 'results' | 'comparison' | 'sweep';
 
 const TradingSimulationApp: React.FC = () => {
-  const [showResults, setShowResults] = useState<boolean>(false);
+  const [view, setView] = useState<AppView>('settings');
+  // The form's values as the user left them; an empty seed stays empty
+  const [formSettings, setFormSettings] = useState<SimulationSettings | null>(null);
+  // Settings of the run on screen, with its seed resolved
   const [simulationParams, setSimulationParams] = useState<SimulationSettings | null>(null);
+  const [results, setResults] = useState<SimulationRunResult | null>(null);
+  // Broker history shown instead of the simulation; the settings form keeps its own values
+  const [importedHistory, setImportedHistory] = useState<ImportedHistory | null>(null);
+  // Settings the comparison's scenarios start from, and its last results
+  const [comparisonParams, setComparisonParams] = useState<SimulationSettings | null>(null);
+  const [comparisonResults, setComparisonResults] = useState<ScenarioResult[] | null>(null);
+  // Settings the next sweep runs from, and the last sweep with the settings it ran from
+  const [sweepParams, setSweepParams] = useState<SimulationSettings | null>(null);
+  const [sweepRun, setSweepRun] = useState<{ params: SimulationSettings; result: SweepResult } | null>(null);
+  // Where the results page's back button goes
+  const [backView, setBackView] = useState<AppView>('settings');
+  // Settings of the run in progress, used to theme the progress dialog
+  const [pendingParams, setPendingParams] = useState<SimulationSettings | null>(null);
+  // Why the last run failed, shown until dismissed or the next run starts
+  const [runError, setRunError] = useState<string | null>(null);
+  const { run, compare, sweep, cancel, progress } = useSimulationRunner();
+  
+  const startRun = (params: SimulationSettings | null) => {
+    setPendingParams(params);
+    setRunError(null);
+  };
+  
+  const failRun = (action: string, e: unknown) => {
+    setRunError(`${action} failed: ${e instanceof Error ? e.message : String(e)}`);
+  };
+  
+  // Run off the main thread; a cancelled run leaves the previous results in place
+  const runAndShowResults = async (params: SimulationSettings, from: AppView = 'settings') => {
+    startRun(params);
+    try {
+      const result = await run(params);
+      if (result) {
+        setSimulationParams(params);
+        setResults(result);
+        setImportedHistory(null);
+        setBackView(from);
+        setView('results');
+      }
+    } catch (e) {
+      failRun('Simulation', e);
+    } finally {
+      setPendingParams(null);
+    }
+  };
   
   const handleSettingsSubmit = (settings: SimulationSettings) => {
-    setSimulationParams(settings);
-    setShowResults(true);
+    setFormSettings(settings);
+    // Resolve the seed up front so the run can be reproduced; only the run keeps it
+    runAndShowResults({
+      ...settings,
+      seed: settings.seed ?? generateSeed()
+    });
+  };
+  
+  const handleRerun = (keepSeed: boolean) => {
+    if (!simulationParams) return;
+    runAndShowResults({
+      ...simulationParams,
+      seed: keepSeed ? simulationParams.seed : generateSeed()
+    }, backView);
+  };
+  
+  // Copy the seed of the run on screen into the form, so it can be saved or reused
+  const handleUseSeed = (seed: number) => {
+    setFormSettings({ ...(formSettings || simulationParams || createDefaultSettings()), seed });
+    setView('settings');
+  };
+  
+  const handleImport = (history: ImportedHistory) => {
+    setImportedHistory(history);
+    setBackView('settings');
+    setView('results');
   };
   
-  const handleBackToSettings = () => {
-    setShowResults(false);
+  // The settings being edited come back with the form after the comparison
+  const handleCompare = (settings: SimulationSettings) => {
+    setFormSettings(settings);
+    setComparisonParams(settings);
+    setView('comparison');
+  };
+  
+  const handleRunComparison = async (scenarios: Scenario[], shareSeed: boolean) => {
+    startRun(comparisonParams);
+    try {
+      const comparison = await compare(resolveScenarioSeeds(scenarios, shareSeed));
+      if (comparison) setComparisonResults(comparison);
+    } catch (e) {
+      failRun('Comparison', e);
+    } finally {
+      setPendingParams(null);
+    }
+  };
+  
+  // Like a comparison, the edited settings come back with the form afterwards
+  const handleSweep = (settings: SimulationSettings) => {
+    setFormSettings(settings);
+    setSweepParams(settings);
+    setView('sweep');
+  };
+  
+  const handleRunSweep = async (request: SweepRequest) => {
+    if (!sweepParams) return;
+    startRun(sweepParams);
+    try {
+      const result = await sweep(sweepParams, request);
+      if (result) setSweepRun({ params: sweepParams, result });
+    } catch (e) {
+      failRun('Parameter sweep', e);
+    } finally {
+      setPendingParams(null);
+    }
+  };
+  
+  // Open the full results of one cell with the sweep's seed
+  const handleOpenSweepCell = (x: number, y: number) => {
+    if (!sweepRun) return;
+    runAndShowResults({
+      ...getSweepCellSettings(sweepRun.params, sweepRun.result, x, y),
+      seed: sweepRun.result.seed
+    }, 'sweep');
+  };
+  
+  const handleBack = () => {
+    setView(view === 'results' ? backView : 'settings');
   };
   
   return (
     <div className="container mx-auto px-4 py-8 max-w-5xl">
-      {!showResults ? (
-        <TradingSimulationSettings onSubmit={handleSettingsSubmit} />
+      {runError && (
+        <div className="mb-4 flex items-center justify-between px-4 py-3 bg-red-100 border border-red-300 rounded-md text-red-800" role="alert">
+          <div className="flex items-center text-sm">
+            <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+            {runError}
+          </div>
+          <button onClick={() => setRunError(null)} className="ml-4 p-1 rounded-md hover:bg-red-200" aria-label="Dismiss error">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+      {view === 'settings' ? (
+        <TradingSimulationSettings
+          onSubmit={handleSettingsSubmit}
+          initialSettings={formSettings}
+          onImport={handleImport}
+          onCompare={handleCompare}
+          onSweep={handleSweep}
+        />
       ) : (
         <>
           <div className="mb-4">
             <button
-              onClick={handleBackToSettings}
+              onClick={handleBack}
               className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-gray-800 font-medium transition-colors"
             >
-              ← Back to Settings
+              ← Back to {view === 'results' && backView === 'sweep' ? 'Sweep' : 'Settings'}
             </button>
           </div>
-          {simulationParams && <AnnualTradingResults params={simulationParams} />}
+          {view === 'comparison' ? (
+            comparisonParams && (
+              <ScenarioComparisonView
+                currentSettings={comparisonParams}
+                results={comparisonResults}
+                onRun={handleRunComparison}
+                running={progress !== null}
+              />
+            )
+          ) : view === 'sweep' ? (
+            sweepParams && (
+              <ParameterSweepView
+                params={sweepParams}
+                result={sweepRun?.result || null}
+                onRun={handleRunSweep}
+                onOpenCell={handleOpenSweepCell}
+                running={progress !== null}
+              />
+            )
+          ) : importedHistory ? (
+            <AnnualTradingResults
+              params={importedHistory.settings}
+              stats={importedHistory.stats}
+              source={importedHistory.name}
+            />
+          ) : simulationParams && results && (
+            <AnnualTradingResults
+              params={simulationParams}
+              stats={results.stats}
+              monteCarlo={results.monteCarlo}
+              challengeBatch={results.challengeBatch}
+              regimeComparison={results.regimeComparison}
+              onRerun={handleRerun}
+              onUseSeed={handleUseSeed}
+              running={progress !== null}
+            />
+          )}
         </>
       )}
+      {progress && (
+        <SimulationProgress
+          progress={progress}
+          onCancel={cancel}
+          darkMode={pendingParams?.darkMode}
+        />
+      )}
     </div>
   );
 };
@@ -1,80 +1,64 @@
 import React, { useState, FormEvent, ChangeEvent, useMemo, useEffect } from 'react';
-import { Calendar, Moon, Sun, AlertCircle, Save, Download, X, Trash2, AlertTriangle } from 'lucide-react';
-import { SimulationSettings } from './types';
+import { Calendar, Moon, Sun, AlertCircle, Save, Download, X, Trash2, AlertTriangle, Shuffle, Upload, GitCompare, Grid } from 'lucide-react';
+import { SimulationSettings, RegimeSettings, MarketRegime, SavedConfig } from './types';
+import { MAX_MONTE_CARLO_PATHS } from './monte-carlo';
+import { MAX_SEED, generateSeed } from './random';
+import { createDefaultSettings } from './default-settings';
+import { loadSavedConfigs, storeSavedConfigs } from './saved-configs';
+import { TAX_SETTLEMENT_OPTIONS } from './taxes';
+import { WITHDRAWAL_MODELS } from './cash-flows';
+import { DAILY_LIMIT_UNITS, DRAWDOWN_ACTIONS } from './risk-rules';
+import { CHALLENGE_MAX_LOSS_TYPES, DEFAULT_CHALLENGE_ATTEMPTS, MAX_CHALLENGE_ATTEMPTS } from './prop-challenge';
+import { COMMISSION_MODELS, DEFAULT_STOP_DISTANCE_PERCENT, calculateNotional } from './trading-costs';
+import { generateSimulationDates, validateSettings } from './simulation-engine';
+import { TRADING_CALENDARS, getSessionTrades, parseBlackoutDates, toDateKey } from './trading-calendar';
+import { MARKET_REGIMES, createDefaultRegimes, getStationaryDistribution, validateRegimes } from './market-regimes';
+import { OUTCOME_DISTRIBUTIONS, DEFAULT_WIN_STD_DEV_R, DEFAULT_LOSS_STD_DEV_R, DEFAULT_OUTSIZED_LOSS_R, parseRMultipleHistogram, formatRMultipleHistogram, getExpectedWinR } from './trade-outcomes';
+import TradeImportModal, { ImportedHistory } from './trade-import-modal';
+import { OUTCOME_SOURCES, BOOTSTRAP_MODES, isBootstrapEnabled, parseRSample, formatRSample, summarizeRSample } from './bootstrap';
+import { POSITION_SIZING_MODELS, DEFAULT_KELLY_FRACTION, DEFAULT_STEP_UP_PERCENT, getInitialRisk, getKellyRiskPercent } from './position-sizing';
+import { DEFAULT_RISK_WARNING_PERCENT, analyzeEdge } from './edge-analysis';
 
 interface TradingSimulationSettingsProps {
   onSubmit: (settings: SimulationSettings) => void;
+  initialSettings?: SimulationSettings | null;
+  onImport?: (history: ImportedHistory) => void;
+  onCompare?: (settings: SimulationSettings) => void;
+  onSweep?: (settings: SimulationSettings) => void;
 }
 
-interface SavedConfig {
-  name: string;
-  settings: SimulationSettings;
-  date: string;
-}
+// Quick picks that set the end date a whole number of years after the start
+const YEAR_PRESETS = [1, 2, 3, 5, 10];
 
-const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ onSubmit }) => {
-  // Get current date for start date
-  const today = new Date();
-  // Get date one year from now for end date
-  const oneYearFromNow = new Date();
-  oneYearFromNow.setFullYear(today.getFullYear() + 1);
-  
-  // Format dates to YYYY-MM-DD for input fields
-  const formatDateForInput = (date: Date): string => {
-    return date.toISOString().split('T')[0];
-  };
+const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ onSubmit, initialSettings, onImport, onCompare, onSweep }) => {
+  const [settings, setSettings] = useState<SimulationSettings>(() => initialSettings || createDefaultSettings());
   
-  const [settings, setSettings] = useState<SimulationSettings>({
-    // Required fields from your interface
-    initialCapital: 10000,
-    annualContribution: 0,
-    yearsToSimulate: 1,
-    expectedReturn: 10,
-    volatility: 15,
-    tradingFrequency: 'daily',
-    tradingStrategy: 'momentum',
-    
-    // Fields shown in the UI - updated with dynamic dates
-    startDate: formatDateForInput(today),
-    endDate: formatDateForInput(oneYearFromNow),
-    tradesPerDay: 4,
-    winRate: 55,
-    riskRewardRatio: 1,
-    startingEquity: 50000,
-    riskPerTrade: 250,
-    
-    // Additional required fields
-    positionSizingPercent: 2,
-    maxDrawdownPercent: 0,
-    averageWinAmount: 0,
-    averageLossAmount: 0,
-    
-    // Optional fields
-    darkMode: false,
-    feesPerTrade: 0,
-    taxRate: 0
-  });
-
   // State for saved configurations
   const [savedConfigs, setSavedConfigs] = useState<SavedConfig[]>([]);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showSampleImportModal, setShowSampleImportModal] = useState(false);
   const [configName, setConfigName] = useState('');
   const [confirmDeleteIndex, setConfirmDeleteIndex] = useState<number | null>(null);
   
+  // Custom R-multiple histograms are edited as text and only stored once they parse
+  const [winHistogramText, setWinHistogramText] = useState(() => formatRMultipleHistogram(settings.winHistogram));
+  const [lossHistogramText, setLossHistogramText] = useState(() => formatRMultipleHistogram(settings.lossHistogram));
+  const [blackoutText, setBlackoutText] = useState(() => (settings.blackoutDates || []).join(', '));
+  const [rSampleText, setRSampleText] = useState(() => formatRSample(settings.bootstrapSample));
+  // Problems found when Run Simulation was pressed; cleared as soon as the settings change
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+  
   // Load saved configs from localStorage on component mount
   useEffect(() => {
-    const savedConfigsStr = localStorage.getItem('tradingSimulationConfigs');
-    if (savedConfigsStr) {
-      try {
-        const configs = JSON.parse(savedConfigsStr);
-        setSavedConfigs(configs);
-      } catch (e) {
-        console.error('Failed to parse saved configurations', e);
-      }
-    }
+    setSavedConfigs(loadSavedConfigs());
   }, []);
   
+  useEffect(() => {
+    setSubmitErrors([]);
+  }, [settings]);
+  
   // Check if dates are valid
   const isValidDateRange = useMemo(() => {
     const startDate = new Date(settings.startDate);
@@ -88,25 +72,47 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
     return endDate >= startDate;
   }, [settings.startDate, settings.endDate]);
   
-  // Calculate trading days dynamically based on start and end dates
-  const tradingDays = useMemo(() => {
-    const startDate = new Date(settings.startDate);
-    const endDate = new Date(settings.endDate);
-    
-    // Invalid date handling
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) {
-      return 0; // Return 0 if dates are invalid or end date is before start date
+  const bootstrapEnabled = isBootstrapEnabled(settings);
+  const bootstrapDays = bootstrapEnabled && settings.bootstrapMode === 'day';
+  const sampleSummary = useMemo(() => summarizeRSample(settings.bootstrapSample), [settings.bootstrapSample]);
+  
+  // Count trading days and trades on the same calendar the simulation uses
+  const { tradingDays, projectedTrades } = useMemo(() => {
+    if (!isValidDateRange) {
+      return { tradingDays: 0, projectedTrades: 0 };
     }
     
-    // Calculate total days
-    const dayDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Exclude weekends (approximately)
-    // Each week has 5 trading days, so we calculate: (totalDays / 7) * 5
-    const approxTradingDays = Math.max(1, Math.round((dayDiff / 7) * 5));
-    
-    return approxTradingDays;
-  }, [settings.startDate, settings.endDate]);
+    const dates = generateSimulationDates(settings);
+    return {
+      tradingDays: dates.length,
+      // Replayed days take as many trades as the historical day drawn, so only the average is known
+      projectedTrades: bootstrapDays
+        ? Math.round(dates.reduce((sum, date) => sum + sampleSummary.tradesPerDay * date.sessionLength, 0))
+        : dates.reduce((sum, date) => sum + getSessionTrades(settings.tradesPerDay, date.sessionLength), 0)
+    };
+  }, [isValidDateRange, settings, bootstrapDays, sampleSummary]);
+  
+  const sizingModel = settings.positionSizingModel || 'fixed-dollar';
+  const initialRisk = useMemo(() => getInitialRisk(settings), [settings]);
+  const kellyRiskPercent = getKellyRiskPercent(settings);
+  const commissionModel = settings.commissionModel || 'flat';
+  const winDistribution = settings.winDistribution || 'fixed';
+  const lossDistribution = settings.lossDistribution || 'fixed';
+  const winHistogramValid = parseRMultipleHistogram(winHistogramText) !== null;
+  const lossHistogramValid = parseRMultipleHistogram(lossHistogramText) !== null;
+  const regimes = settings.regimes || createDefaultRegimes();
+  const regimeErrors = settings.regimeModel && !bootstrapEnabled ? validateRegimes(regimes) : [];
+  const regimeShares = useMemo(() => getStationaryDistribution(regimes), [regimes]);
+  const rSampleValid = parseRSample(rSampleText) !== null;
+  // Only the outcome inputs in use have to be valid
+  const outcomesValid = bootstrapEnabled
+    ? rSampleValid
+    : (winDistribution !== 'custom' || winHistogramValid)
+      && (lossDistribution !== 'custom' || lossHistogramValid)
+      && regimeErrors.length === 0;
+  const expectedWinR = bootstrapEnabled ? sampleSummary.averageWinR : getExpectedWinR(settings);
+  // Closed-form expectancy and ruin estimates, recomputed as fields change
+  const edge = useMemo(() => analyzeEdge(settings, projectedTrades), [settings, projectedTrades]);
   
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     const { name, value, type } = e.target;
@@ -116,9 +122,117 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
     });
   };
   
+  const handleYearsChange = (years: number) => {
+    const [year, month, day] = String(settings.startDate).split('-').map(Number);
+    if (!year || !month || !day) return;
+    setSettings({
+      ...settings,
+      yearsToSimulate: years,
+      endDate: toDateKey(new Date(year + years, month - 1, day - 1))
+    });
+  };
+  
+  const handleSelectChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setSettings({
+      ...settings,
+      [name]: value
+    });
+  };
+  
+  const handleCheckboxChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setSettings({
+      ...settings,
+      [name]: checked
+    });
+  };
+  
+  // Seed is optional - an empty field means a new random seed for every run
+  const handleSeedChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.trim();
+    const seed = parseInt(value, 10);
+    setSettings({
+      ...settings,
+      seed: value === '' || isNaN(seed) ? undefined : Math.min(MAX_SEED, Math.abs(seed))
+    });
+  };
+  
+  const handleHistogramChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    if (name === 'winHistogram') {
+      setWinHistogramText(value);
+    } else {
+      setLossHistogramText(value);
+    }
+    const buckets = parseRMultipleHistogram(value);
+    if (buckets) {
+      setSettings({
+        ...settings,
+        [name]: buckets
+      });
+    }
+  };
+  
+  // The sample is edited as text and only stored once it parses
+  const handleRSampleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    setRSampleText(e.target.value);
+    const sample = parseRSample(e.target.value);
+    if (sample) {
+      setSettings({
+        ...settings,
+        bootstrapSample: sample
+      });
+    }
+  };
+  
+  const handleSampleImport = (sample: number[][]) => {
+    setRSampleText(formatRSample(sample));
+    setSettings({
+      ...settings,
+      bootstrapSample: sample
+    });
+    setShowSampleImportModal(false);
+  };
+  
+  const handleBlackoutChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    setBlackoutText(e.target.value);
+    setSettings({
+      ...settings,
+      blackoutDates: parseBlackoutDates(e.target.value)
+    });
+  };
+  
+  // Edit one cell of the regime table: a win rate, an R:R or a transition probability
+  const handleRegimeChange = (index: number, field: 'winRate' | 'riskRewardRatio' | MarketRegime, value: string) => {
+    const parsed = parseFloat(value);
+    const updated = regimes.map((regime, i): RegimeSettings => {
+      if (i !== index) return regime;
+      if (field === 'winRate' || field === 'riskRewardRatio') {
+        return { ...regime, [field]: parsed };
+      }
+      return { ...regime, transitions: { ...regime.transitions, [field]: parsed } };
+    });
+    setSettings({
+      ...settings,
+      regimes: updated
+    });
+  };
+  
+  const handleRollSeed = () => {
+    setSettings({
+      ...settings,
+      seed: generateSeed()
+    });
+  };
+  
   const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (isValidDateRange) {
+    if (!isValidDateRange || !outcomesValid) return;
+    // Same checks the engine and CLI run, so bad settings never reach the worker
+    const errors = validateSettings(settings);
+    setSubmitErrors(errors);
+    if (errors.length === 0) {
       onSubmit(settings);
     }
   };
@@ -144,7 +258,7 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
     setSavedConfigs(updatedConfigs);
     
     // Save to localStorage
-    localStorage.setItem('tradingSimulationConfigs', JSON.stringify(updatedConfigs));
+    storeSavedConfigs(updatedConfigs);
     
     // Close modal and reset name
     setShowSaveModal(false);
@@ -154,6 +268,10 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
   // Load selected settings
   const handleLoadSettings = (config: SavedConfig) => {
     setSettings(config.settings);
+    setWinHistogramText(formatRMultipleHistogram(config.settings.winHistogram));
+    setLossHistogramText(formatRMultipleHistogram(config.settings.lossHistogram));
+    setBlackoutText((config.settings.blackoutDates || []).join(', '));
+    setRSampleText(formatRSample(config.settings.bootstrapSample));
     setShowLoadModal(false);
     setConfirmDeleteIndex(null);
   };
@@ -162,7 +280,7 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
   const handleDeleteConfig = (indexToDelete: number) => {
     const updatedConfigs = savedConfigs.filter((_, index) => index !== indexToDelete);
     setSavedConfigs(updatedConfigs);
-    localStorage.setItem('tradingSimulationConfigs', JSON.stringify(updatedConfigs));
+    storeSavedConfigs(updatedConfigs);
     setConfirmDeleteIndex(null); // Reset confirmation state after deletion
   };
   
@@ -224,6 +342,33 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
           >
             <Download size={20} />
           </button>
+          {onImport && (
+            <button 
+              onClick={() => setShowImportModal(true)}
+              className={iconButtonClass}
+              title="Import trade history"
+            >
+              <Upload size={20} />
+            </button>
+          )}
+          {onCompare && (
+            <button 
+              onClick={() => onCompare(settings)}
+              className={iconButtonClass}
+              title="Compare scenarios"
+            >
+              <GitCompare size={20} />
+            </button>
+          )}
+          {onSweep && (
+            <button 
+              onClick={() => onSweep(settings)}
+              className={iconButtonClass}
+              title="Sweep two parameters"
+            >
+              <Grid size={20} />
+            </button>
+          )}
           <button 
             onClick={toggleDarkMode} 
             className={`p-2 rounded-full ${settings.darkMode ? 'bg-gray-700 text-yellow-300' : 'bg-gray-200 text-gray-800'}`}
@@ -277,6 +422,55 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
                 End date must be after start date
               </div>
             )}
+            <div className="flex items-center gap-2 mt-1 text-xs">
+              <span className={settings.darkMode ? 'text-gray-400' : 'text-gray-500'}>Years:</span>
+              {YEAR_PRESETS.map(years => (
+                <button
+                  key={years}
+                  type="button"
+                  className="text-blue-500 hover:underline"
+                  onClick={() => handleYearsChange(years)}
+                >
+                  {years}
+                </button>
+              ))}
+            </div>
+          </div>
+          
+          {/* Trading Calendar */}
+          <div>
+            <label htmlFor="tradingCalendar" className={labelClass}>Trading Calendar</label>
+            <select
+              name="tradingCalendar"
+              id="tradingCalendar"
+              className={inputClass}
+              value={settings.tradingCalendar || 'weekdays'}
+              onChange={handleSelectChange}
+            >
+              {TRADING_CALENDARS.map(calendar => (
+                <option key={calendar.value} value={calendar.value}>{calendar.label}</option>
+              ))}
+            </select>
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Early-close sessions take half the usual number of trades
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="blackoutDates" className={labelClass}>Blackout Dates</label>
+            <textarea
+              name="blackoutDates"
+              id="blackoutDates"
+              rows={2}
+              className={inputClass}
+              value={blackoutText}
+              onChange={handleBlackoutChange}
+              placeholder="2025-03-14, 2025-08-01"
+            />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              YYYY-MM-DD dates you won't trade, e.g. vacations or news days
+              {(settings.blackoutDates?.length || 0) > 0 && ` (${settings.blackoutDates?.length} set)`}
+            </p>
           </div>
           
           {/* Trading Parameters */}
@@ -294,73 +488,1047 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
               onChange={handleChange}
               required
             />
+            {bootstrapDays && (
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Not used: each day replays the trades of a historical day
+              </p>
+            )}
+          </div>
+          
+          {/* Outcome Source */}
+          <div>
+            <label htmlFor="outcomeSource" className={labelClass}>Trade Outcomes From</label>
+            <select
+              name="outcomeSource"
+              id="outcomeSource"
+              className={inputClass}
+              value={settings.outcomeSource || 'parameters'}
+              onChange={handleSelectChange}
+            >
+              {OUTCOME_SOURCES.map(source => (
+                <option key={source.value} value={source.value}>{source.label}</option>
+              ))}
+            </select>
           </div>
           
+          {bootstrapEnabled && (
+            <>
+              <div>
+                <label htmlFor="bootstrapMode" className={labelClass}>Resample</label>
+                <select
+                  name="bootstrapMode"
+                  id="bootstrapMode"
+                  className={inputClass}
+                  value={settings.bootstrapMode || 'trade'}
+                  onChange={handleSelectChange}
+                >
+                  {BOOTSTRAP_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Whole days keep winning and losing streaks together the way they happened
+                </p>
+              </div>
+              
+              <div className="md:col-span-2">
+                <div className="flex justify-between items-center">
+                  <label htmlFor="bootstrapSample" className={labelClass}>R-Multiple Sample</label>
+                  <button
+                    type="button"
+                    className="inline-flex items-center text-sm text-blue-500 hover:underline"
+                    onClick={() => setShowSampleImportModal(true)}
+                  >
+                    <Upload size={14} className="mr-1" />
+                    Load from CSV
+                  </button>
+                </div>
+                <textarea
+                  name="bootstrapSample"
+                  id="bootstrapSample"
+                  rows={5}
+                  className={rSampleValid ? `${inputClass} font-mono text-sm` : `${errorInputClass} font-mono text-sm`}
+                  value={rSampleText}
+                  onChange={handleRSampleChange}
+                  placeholder={'2.1, -1, -1\n-1, 0.5\n3, -1, 1.2, -1'}
+                />
+                {rSampleValid ? (
+                  <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    One trading day per line, R-multiples separated by commas. {sampleSummary.trades.toLocaleString()} trades over {sampleSummary.days.toLocaleString()} days:
+                    {' '}{sampleSummary.winRate.toFixed(1)}% win rate, {sampleSummary.expectancy.toFixed(2)}R expectancy, {sampleSummary.payoffRatio.toFixed(2)} payoff ratio.
+                    {' '}Commissions and slippage below are charged on top
+                  </p>
+                ) : (
+                  <div className={errorMessageClass}>
+                    <AlertCircle size={16} className="mr-1" />
+                    Enter at least one R-multiple; use numbers like 1.5 or -1
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+          
+          {!bootstrapEnabled && (
+            <>
+              <div>
+                <label htmlFor="winRate" className={labelClass}>Win Rate (%)</label>
+                <input
+                  type="number"
+                  name="winRate"
+                  id="winRate"
+                  min="1"
+                  max="99"
+                  step="0.1"
+                  className={inputClass}
+                  value={settings.winRate}
+                  onChange={handleChange}
+                  required
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="riskRewardRatio" className={labelClass}>Risk/Reward Ratio</label>
+                <input
+                  type="number"
+                  name="riskRewardRatio"
+                  id="riskRewardRatio"
+                  min="0.1"
+                  max="10"
+                  step="0.1"
+                  className={inputClass}
+                  value={settings.riskRewardRatio}
+                  onChange={handleChange}
+                  required
+                />
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  1 = equal risk and reward, 2 = potential reward is twice the risk
+                </p>
+              </div>
+            </>
+          )}
+          
           <div>
-            <label htmlFor="winRate" className={labelClass}>Win Rate (%)</label>
+            <label htmlFor="startingEquity" className={labelClass}>Starting Equity ($)</label>
             <input
               type="number"
-              name="winRate"
-              id="winRate"
-              min="1"
-              max="99"
-              step="0.1"
+              name="startingEquity"
+              id="startingEquity"
+              min="1000"
+              step="1000"
               className={inputClass}
-              value={settings.winRate}
+              value={settings.startingEquity}
               onChange={handleChange}
               required
             />
           </div>
           
+          {/* Position Sizing */}
+          <div>
+            <label htmlFor="positionSizingModel" className={labelClass}>Position Sizing Model</label>
+            <select
+              name="positionSizingModel"
+              id="positionSizingModel"
+              className={inputClass}
+              value={sizingModel}
+              onChange={handleSelectChange}
+            >
+              {POSITION_SIZING_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+          </div>
+          
+          {sizingModel === 'fixed-dollar' && (
+            <div>
+              <label htmlFor="riskPerTrade" className={labelClass}>$ Amount at Risk per Trade</label>
+              <input
+                type="number"
+                name="riskPerTrade"
+                id="riskPerTrade"
+                min="1"
+                step="any"
+                className={inputClass}
+                value={settings.riskPerTrade}
+                onChange={handleChange}
+                required
+              />
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Amount you're willing to lose on each trade
+              </p>
+            </div>
+          )}
+          
+          {(sizingModel === 'percent-of-equity' || sizingModel === 'step-up') && (
+            <div>
+              <label htmlFor="positionSizingPercent" className={labelClass}>
+                Risk per Trade (% of {sizingModel === 'step-up' ? 'Starting' : 'Current'} Equity)
+              </label>
+              <input
+                type="number"
+                name="positionSizingPercent"
+                id="positionSizingPercent"
+                min="0.01"
+                max="100"
+                step="any"
+                className={inputClass}
+                value={settings.positionSizingPercent}
+                onChange={handleChange}
+                required
+              />
+            </div>
+          )}
+          
+          {sizingModel === 'step-up' && (
+            <div>
+              <label htmlFor="stepUpPercent" className={labelClass}>Step-Up Threshold (%)</label>
+              <input
+                type="number"
+                name="stepUpPercent"
+                id="stepUpPercent"
+                min="1"
+                step="any"
+                className={inputClass}
+                value={settings.stepUpPercent ?? DEFAULT_STEP_UP_PERCENT}
+                onChange={handleChange}
+                required
+              />
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Risk is recalculated from current equity each time it grows this much above the last sizing level
+              </p>
+            </div>
+          )}
+          
+          {sizingModel === 'kelly' && (
+            <div>
+              <label htmlFor="kellyFraction" className={labelClass}>Kelly Fraction</label>
+              <input
+                type="number"
+                name="kellyFraction"
+                id="kellyFraction"
+                min="0.05"
+                max="1"
+                step="0.05"
+                className={inputClass}
+                value={settings.kellyFraction ?? DEFAULT_KELLY_FRACTION}
+                onChange={handleChange}
+                required
+              />
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {kellyRiskPercent > 0
+                  ? `Risks ${kellyRiskPercent.toFixed(2)}% of current equity per trade (1 = full Kelly)`
+                  : 'No edge at this win rate and risk/reward - Kelly sizing risks nothing'}
+              </p>
+            </div>
+          )}
+          
+          {!bootstrapEnabled && (
+            <>
+              {/* Trade Outcomes */}
+              <div>
+                <label htmlFor="winDistribution" className={labelClass}>Winning Trade Size</label>
+                <select
+                  name="winDistribution"
+                  id="winDistribution"
+                  className={inputClass}
+                  value={winDistribution}
+                  onChange={handleSelectChange}
+                >
+                  {OUTCOME_DISTRIBUTIONS.map(distribution => (
+                    <option key={distribution.value} value={distribution.value}>{distribution.label}</option>
+                  ))}
+                </select>
+                {(winDistribution === 'normal' || winDistribution === 'lognormal') && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      type="number"
+                      name="winStdDevR"
+                      id="winStdDevR"
+                      min="0"
+                      step="0.05"
+                      className={`${inputClass} w-28`}
+                      value={settings.winStdDevR ?? DEFAULT_WIN_STD_DEV_R}
+                      onChange={handleChange}
+                      title="Standard deviation in R"
+                    />
+                    <span className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      R std dev around a {settings.riskRewardRatio}R average
+                    </span>
+                  </div>
+                )}
+                {winDistribution === 'custom' && (
+                  <>
+                    <input
+                      type="text"
+                      name="winHistogram"
+                      id="winHistogram"
+                      className={winHistogramValid ? inputClass : errorInputClass}
+                      value={winHistogramText}
+                      onChange={handleHistogramChange}
+                      placeholder="0.5:20, 1:50, 3:30"
+                    />
+                    {winHistogramValid ? (
+                      <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        R-multiple:weight pairs, e.g. 0.5:20, 1:50, 3:30
+                      </p>
+                    ) : (
+                      <div className={errorMessageClass}>
+                        <AlertCircle size={16} className="mr-1" />
+                        Enter R-multiple:weight pairs separated by commas
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              
+              <div>
+                <label htmlFor="lossDistribution" className={labelClass}>Losing Trade Size</label>
+                <select
+                  name="lossDistribution"
+                  id="lossDistribution"
+                  className={inputClass}
+                  value={lossDistribution}
+                  onChange={handleSelectChange}
+                >
+                  {OUTCOME_DISTRIBUTIONS.map(distribution => (
+                    <option key={distribution.value} value={distribution.value}>{distribution.label}</option>
+                  ))}
+                </select>
+                {(lossDistribution === 'normal' || lossDistribution === 'lognormal') && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      type="number"
+                      name="lossStdDevR"
+                      id="lossStdDevR"
+                      min="0"
+                      step="0.05"
+                      className={`${inputClass} w-28`}
+                      value={settings.lossStdDevR ?? DEFAULT_LOSS_STD_DEV_R}
+                      onChange={handleChange}
+                      title="Standard deviation in R"
+                    />
+                    <span className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      R std dev around a {1}R average
+                    </span>
+                  </div>
+                )}
+                {lossDistribution === 'custom' && (
+                  <>
+                    <input
+                      type="text"
+                      name="lossHistogram"
+                      id="lossHistogram"
+                      className={lossHistogramValid ? inputClass : errorInputClass}
+                      value={lossHistogramText}
+                      onChange={handleHistogramChange}
+                      placeholder="0.5:20, 1:50, 3:30"
+                    />
+                    {lossHistogramValid ? (
+                      <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        R-multiple:weight pairs, e.g. 0.5:20, 1:75, 2:5 (loss sizes as positive R)
+                      </p>
+                    ) : (
+                      <div className={errorMessageClass}>
+                        <AlertCircle size={16} className="mr-1" />
+                        Enter R-multiple:weight pairs separated by commas
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              
+              <div>
+                <label htmlFor="breakevenRate" className={labelClass}>Breakeven Trades (%)</label>
+                <input
+                  type="number"
+                  name="breakevenRate"
+                  id="breakevenRate"
+                  min="0"
+                  max="99"
+                  step="0.1"
+                  className={inputClass}
+                  value={settings.breakevenRate ?? 0}
+                  onChange={handleChange}
+                />
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Share of trades that scratch at 0R. The win rate applies to the remaining trades
+                </p>
+              </div>
+              
+              <div>
+                <label htmlFor="outsizedLossRate" className={labelClass}>Slipped Stops (% of Losses)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    name="outsizedLossRate"
+                    id="outsizedLossRate"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    className={inputClass}
+                    value={settings.outsizedLossRate ?? 0}
+                    onChange={handleChange}
+                  />
+                  <input
+                    type="number"
+                    name="outsizedLossR"
+                    id="outsizedLossR"
+                    min="1"
+                    step="0.1"
+                    className={`${inputClass} w-24`}
+                    value={settings.outsizedLossR ?? DEFAULT_OUTSIZED_LOSS_R}
+                    onChange={handleChange}
+                    title="Size of a slipped-stop loss in R"
+                  />
+                </div>
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Losses that gap through the stop and cost the R amount on the right. 0 = off
+                </p>
+              </div>
+              
+              {/* Market Regimes */}
+              <div className="md:col-span-2">
+                <label className={`flex items-center text-sm font-medium ${settings.darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  <input
+                    type="checkbox"
+                    name="regimeModel"
+                    className="mr-2"
+                    checked={!!settings.regimeModel}
+                    onChange={handleCheckboxChange}
+                  />
+                  Market Regime Model
+                </label>
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Switch between regimes from day to day so wins and losses cluster. Each regime replaces the win rate and R:R above
+                </p>
+                {settings.regimeModel && (
+                  <div className="mt-2 overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className={settings.darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                          <th className="py-1 pr-2 text-left font-medium">Regime</th>
+                          <th className="py-1 pr-2 text-left font-medium">Win Rate (%)</th>
+                          <th className="py-1 pr-2 text-left font-medium">R:R</th>
+                          {MARKET_REGIMES.map(regime => (
+                            <th key={regime.value} className="py-1 pr-2 text-left font-medium">→ {regime.label} (%)</th>
+                          ))}
+                          <th className="py-1 text-left font-medium">Long-Run Share</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {regimes.map((regime, index) => (
+                          <tr key={regime.regime}>
+                            <td className="py-1 pr-2">
+                              {MARKET_REGIMES.find(option => option.value === regime.regime)?.label || regime.regime}
+                            </td>
+                            <td className="py-1 pr-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.1"
+                                className={inputClass}
+                                value={regime.winRate}
+                                onChange={(e) => handleRegimeChange(index, 'winRate', e.target.value)}
+                              />
+                            </td>
+                            <td className="py-1 pr-2">
+                              <input
+                                type="number"
+                                min="0.1"
+                                step="0.1"
+                                className={inputClass}
+                                value={regime.riskRewardRatio}
+                                onChange={(e) => handleRegimeChange(index, 'riskRewardRatio', e.target.value)}
+                              />
+                            </td>
+                            {MARKET_REGIMES.map(target => (
+                              <td key={target.value} className="py-1 pr-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  step="1"
+                                  className={inputClass}
+                                  value={regime.transitions[target.value] ?? 0}
+                                  onChange={(e) => handleRegimeChange(index, target.value, e.target.value)}
+                                />
+                              </td>
+                            ))}
+                            <td className="py-1">{(regimeShares[regime.regime] * 100).toFixed(0)}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {regimeErrors.length > 0 && (
+                      <div className={errorMessageClass}>
+                        <AlertCircle size={16} className="mr-1" />
+                        {regimeErrors[0]}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+          
+          {/* Trading Costs */}
           <div>
-            <label htmlFor="riskRewardRatio" className={labelClass}>Risk/Reward Ratio</label>
+            <label htmlFor="commissionModel" className={labelClass}>Commission Model</label>
+            <select
+              name="commissionModel"
+              id="commissionModel"
+              className={inputClass}
+              value={commissionModel}
+              onChange={handleSelectChange}
+            >
+              {COMMISSION_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+          </div>
+          
+          {commissionModel !== 'percent-of-notional' && (
+            <div>
+              <label htmlFor="feesPerTrade" className={labelClass}>
+                {commissionModel === 'per-contract' ? 'Fee per Contract / Share ($)' : 'Fee per Trade ($)'}
+              </label>
+              <input
+                type="number"
+                name="feesPerTrade"
+                id="feesPerTrade"
+                min="0"
+                step="any"
+                className={inputClass}
+                value={settings.feesPerTrade ?? 0}
+                onChange={handleChange}
+              />
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Round-trip commission charged on every trade
+              </p>
+            </div>
+          )}
+          
+          {commissionModel === 'per-contract' && (
+            <div>
+              <label htmlFor="contractsPerTrade" className={labelClass}>Contracts / Shares per Trade</label>
+              <input
+                type="number"
+                name="contractsPerTrade"
+                id="contractsPerTrade"
+                min="1"
+                step="1"
+                className={inputClass}
+                value={settings.contractsPerTrade ?? 1}
+                onChange={handleChange}
+              />
+            </div>
+          )}
+          
+          {commissionModel === 'percent-of-notional' && (
+            <>
+              <div>
+                <label htmlFor="commissionPercent" className={labelClass}>Commission (% of Notional)</label>
+                <input
+                  type="number"
+                  name="commissionPercent"
+                  id="commissionPercent"
+                  min="0"
+                  step="any"
+                  className={inputClass}
+                  value={settings.commissionPercent ?? 0}
+                  onChange={handleChange}
+                />
+              </div>
+              <div>
+                <label htmlFor="stopDistancePercent" className={labelClass}>Stop Distance (% of Price)</label>
+                <input
+                  type="number"
+                  name="stopDistancePercent"
+                  id="stopDistancePercent"
+                  min="0.01"
+                  step="any"
+                  className={inputClass}
+                  value={settings.stopDistancePercent ?? DEFAULT_STOP_DISTANCE_PERCENT}
+                  onChange={handleChange}
+                />
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Notional value = risk ÷ stop distance (${Math.round(calculateNotional(settings, initialRisk)).toLocaleString()} on the first trade)
+                </p>
+              </div>
+            </>
+          )}
+          
+          <div>
+            <label htmlFor="averageSlippageR" className={labelClass}>Average Slippage (R)</label>
             <input
               type="number"
-              name="riskRewardRatio"
-              id="riskRewardRatio"
-              min="0.1"
-              max="10"
+              name="averageSlippageR"
+              id="averageSlippageR"
+              min="0"
+              step="0.01"
+              className={inputClass}
+              value={settings.averageSlippageR ?? 0}
+              onChange={handleChange}
+            />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Random adverse slippage on wins and losses, e.g. 0.05 = 5% of the risk on average
+            </p>
+          </div>
+          
+          {/* Taxes */}
+          <div>
+            <label htmlFor="taxRate" className={labelClass}>Tax Rate on Gains (%)</label>
+            <input
+              type="number"
+              name="taxRate"
+              id="taxRate"
+              min="0"
+              max="99"
               step="0.1"
               className={inputClass}
-              value={settings.riskRewardRatio}
+              value={settings.taxRate ?? 0}
               onChange={handleChange}
-              required
             />
             <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              1 = equal risk and reward, 2 = potential reward is twice the risk
+              0 = no taxes. Losses carry forward to offset gains in later years
             </p>
           </div>
           
+          {(settings.taxRate || 0) > 0 && (
+            <div>
+              <label htmlFor="taxSettlement" className={labelClass}>Tax Settlement</label>
+              <select
+                name="taxSettlement"
+                id="taxSettlement"
+                className={inputClass}
+                value={settings.taxSettlement || 'year-end'}
+                onChange={handleSelectChange}
+              >
+                {TAX_SETTLEMENT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <label className={`mt-2 flex items-center text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  name="payTaxesFromAccount"
+                  className="mr-2"
+                  checked={!!settings.payTaxesFromAccount}
+                  onChange={handleCheckboxChange}
+                />
+                Pay taxes out of the trading account
+              </label>
+            </div>
+          )}
+          
+          {/* Cash Flows */}
           <div>
-            <label htmlFor="startingEquity" className={labelClass}>Starting Equity ($)</label>
+            <label htmlFor="annualContribution" className={labelClass}>Annual Deposits ($)</label>
             <input
               type="number"
-              name="startingEquity"
-              id="startingEquity"
-              min="1000"
-              step="1000"
+              name="annualContribution"
+              id="annualContribution"
+              min="0"
+              step="any"
               className={inputClass}
-              value={settings.startingEquity}
+              value={settings.annualContribution ?? 0}
               onChange={handleChange}
-              required
             />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Paid in twelve equal installments on the last trading day of each month. 0 = none
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="withdrawalModel" className={labelClass}>Withdrawals</label>
+            <select
+              name="withdrawalModel"
+              id="withdrawalModel"
+              className={inputClass}
+              value={settings.withdrawalModel || 'none'}
+              onChange={handleSelectChange}
+            >
+              {WITHDRAWAL_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+            {settings.withdrawalModel && settings.withdrawalModel !== 'none' && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <div>
+                  {settings.withdrawalModel === 'fixed' && (
+                    <>
+                      <label htmlFor="monthlyWithdrawal" className={`block text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Per Month ($)</label>
+                      <input
+                        type="number"
+                        name="monthlyWithdrawal"
+                        id="monthlyWithdrawal"
+                        min="0"
+                        step="any"
+                        className={inputClass}
+                        value={settings.monthlyWithdrawal ?? 0}
+                        onChange={handleChange}
+                      />
+                    </>
+                  )}
+                  {settings.withdrawalModel === 'profit-percent' && (
+                    <>
+                      <label htmlFor="withdrawalProfitPercent" className={`block text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share of Profit (%)</label>
+                      <input
+                        type="number"
+                        name="withdrawalProfitPercent"
+                        id="withdrawalProfitPercent"
+                        min="0"
+                        max="100"
+                        step="any"
+                        className={inputClass}
+                        value={settings.withdrawalProfitPercent ?? 50}
+                        onChange={handleChange}
+                      />
+                    </>
+                  )}
+                  {settings.withdrawalModel === 'high-water-mark' && (
+                    <>
+                      <label htmlFor="withdrawalHighWaterMark" className={`block text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>High-Water Mark ($)</label>
+                      <input
+                        type="number"
+                        name="withdrawalHighWaterMark"
+                        id="withdrawalHighWaterMark"
+                        min="0"
+                        step="any"
+                        className={inputClass}
+                        value={settings.withdrawalHighWaterMark ?? 0}
+                        onChange={handleChange}
+                      />
+                    </>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="minimumBalance" className={`block text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Minimum Balance ($)</label>
+                  <input
+                    type="number"
+                    name="minimumBalance"
+                    id="minimumBalance"
+                    min="0"
+                    step="any"
+                    className={inputClass}
+                    value={settings.minimumBalance ?? 0}
+                    onChange={handleChange}
+                  />
+                </div>
+              </div>
+            )}
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {settings.challengeMode
+                ? 'Cash flows are ignored in challenge mode'
+                : settings.withdrawalModel === 'high-water-mark'
+                  ? 'Withdraw everything above the mark plus deposits each month end; 0 = starting equity'
+                  : 'Taken on the last trading day of each month; no withdrawal takes equity below the minimum balance'}
+            </p>
           </div>
           
+          {/* Risk Rules */}
           <div>
-            <label htmlFor="riskPerTrade" className={labelClass}>$ Amount at Risk per Trade</label>
+            <label htmlFor="dailyLossLimit" className={labelClass}>Daily Loss Limit</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                name="dailyLossLimit"
+                id="dailyLossLimit"
+                min="0"
+                step="any"
+                className={inputClass}
+                value={settings.dailyLossLimit ?? 0}
+                onChange={handleChange}
+              />
+              <select
+                name="dailyLimitUnit"
+                id="dailyLimitUnit"
+                className={`${inputClass} w-20`}
+                value={settings.dailyLimitUnit || 'dollars'}
+                onChange={handleSelectChange}
+                title="Unit of the daily loss limit and profit target"
+              >
+                {DAILY_LIMIT_UNITS.map(unit => (
+                  <option key={unit.value} value={unit.value}>{unit.label}</option>
+                ))}
+              </select>
+            </div>
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Stop trading for the day once the day's loss reaches this amount. 0 = off
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="dailyProfitTarget" className={labelClass}>
+              Daily Profit Target ({settings.dailyLimitUnit === 'r' ? 'R' : '$'})
+            </label>
             <input
               type="number"
-              name="riskPerTrade"
-              id="riskPerTrade"
+              name="dailyProfitTarget"
+              id="dailyProfitTarget"
+              min="0"
+              step="any"
+              className={inputClass}
+              value={settings.dailyProfitTarget ?? 0}
+              onChange={handleChange}
+            />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Stop trading for the day once the day's profit reaches this amount. 0 = off
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="maxConsecutiveLosses" className={labelClass}>Max Consecutive Losses per Day</label>
+            <input
+              type="number"
+              name="maxConsecutiveLosses"
+              id="maxConsecutiveLosses"
+              min="0"
+              step="1"
+              className={inputClass}
+              value={settings.maxConsecutiveLosses ?? 0}
+              onChange={handleChange}
+            />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Stop trading for the day after this many losses in a row. 0 = off
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="maxDrawdownPercent" className={labelClass}>Max Drawdown from Peak (%)</label>
+            <input
+              type="number"
+              name="maxDrawdownPercent"
+              id="maxDrawdownPercent"
+              min="0"
+              max="100"
+              step="any"
+              className={inputClass}
+              value={settings.maxDrawdownPercent}
+              onChange={handleChange}
+            />
+            {settings.maxDrawdownPercent > 0 ? (
+              <div className="mt-2 flex items-center gap-2">
+                <select
+                  name="drawdownAction"
+                  id="drawdownAction"
+                  className={inputClass}
+                  value={settings.drawdownAction || 'halt'}
+                  onChange={handleSelectChange}
+                >
+                  {DRAWDOWN_ACTIONS.map(action => (
+                    <option key={action.value} value={action.value}>{action.label}</option>
+                  ))}
+                </select>
+                {settings.drawdownAction === 'pause' && (
+                  <input
+                    type="number"
+                    name="drawdownPauseDays"
+                    id="drawdownPauseDays"
+                    min="0"
+                    step="1"
+                    className={`${inputClass} w-24`}
+                    value={settings.drawdownPauseDays ?? 5}
+                    onChange={handleChange}
+                    title="Trading days to pause"
+                  />
+                )}
+              </div>
+            ) : (
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Halt or pause trading when equity falls this far below its peak. 0 = off
+              </p>
+            )}
+          </div>
+          
+          {/* Prop Firm Challenge */}
+          <div className="md:col-span-2">
+            <label className={`flex items-center text-sm font-medium ${settings.darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="checkbox"
+                name="challengeMode"
+                className="mr-2"
+                checked={!!settings.challengeMode}
+                onChange={handleCheckboxChange}
+              />
+              Prop Firm Challenge Mode
+            </label>
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Evaluate the settings as a funded-account evaluation: the run ends when the challenge is passed or failed
+            </p>
+          </div>
+          
+          {settings.challengeMode && (
+            <>
+              <div>
+                <label htmlFor="challengeProfitTarget" className={labelClass}>Challenge Profit Target ($)</label>
+                <input
+                  type="number"
+                  name="challengeProfitTarget"
+                  id="challengeProfitTarget"
+                  min="1"
+                  step="any"
+                  className={inputClass}
+                  value={settings.challengeProfitTarget ?? 0}
+                  onChange={handleChange}
+                  required
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="challengeMaxLoss" className={labelClass}>Max Total Loss ($)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    name="challengeMaxLoss"
+                    id="challengeMaxLoss"
+                    min="0"
+                    step="any"
+                    className={inputClass}
+                    value={settings.challengeMaxLoss ?? 0}
+                    onChange={handleChange}
+                  />
+                  <select
+                    name="challengeMaxLossType"
+                    id="challengeMaxLossType"
+                    className={inputClass}
+                    value={settings.challengeMaxLossType || 'static'}
+                    onChange={handleSelectChange}
+                  >
+                    {CHALLENGE_MAX_LOSS_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              
+              <div>
+                <label htmlFor="challengeDailyLossLimit" className={labelClass}>Challenge Daily Loss Limit ($)</label>
+                <input
+                  type="number"
+                  name="challengeDailyLossLimit"
+                  id="challengeDailyLossLimit"
+                  min="0"
+                  step="any"
+                  className={inputClass}
+                  value={settings.challengeDailyLossLimit ?? 0}
+                  onChange={handleChange}
+                />
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Losing this much in one day fails the challenge. 0 = no limit
+                </p>
+              </div>
+              
+              <div>
+                <label htmlFor="challengeMinTradingDays" className={labelClass}>Minimum Trading Days</label>
+                <input
+                  type="number"
+                  name="challengeMinTradingDays"
+                  id="challengeMinTradingDays"
+                  min="0"
+                  step="1"
+                  className={inputClass}
+                  value={settings.challengeMinTradingDays ?? 0}
+                  onChange={handleChange}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="challengeTimeLimitDays" className={labelClass}>Time Limit (Trading Days)</label>
+                <input
+                  type="number"
+                  name="challengeTimeLimitDays"
+                  id="challengeTimeLimitDays"
+                  min="0"
+                  step="1"
+                  className={inputClass}
+                  value={settings.challengeTimeLimitDays ?? 0}
+                  onChange={handleChange}
+                />
+                <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  0 = until the end date
+                </p>
+              </div>
+              
+              <div>
+                <label htmlFor="challengeAttempts" className={labelClass}>Attempts for Pass Probability</label>
+                <input
+                  type="number"
+                  name="challengeAttempts"
+                  id="challengeAttempts"
+                  min="1"
+                  max={MAX_CHALLENGE_ATTEMPTS}
+                  step="1"
+                  className={inputClass}
+                  value={settings.challengeAttempts ?? DEFAULT_CHALLENGE_ATTEMPTS}
+                  onChange={handleChange}
+                />
+              </div>
+            </>
+          )}
+          
+          {/* Monte Carlo Batch Mode */}
+          <div>
+            <label htmlFor="monteCarloPaths" className={labelClass}>Monte Carlo Paths</label>
+            <input
+              type="number"
+              name="monteCarloPaths"
+              id="monteCarloPaths"
               min="1"
+              max={MAX_MONTE_CARLO_PATHS}
+              step="1"
+              className={inputClass}
+              value={settings.monteCarloPaths ?? 1}
+              onChange={handleChange}
+            />
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              1 = single simulation, more runs a batch and shows the distribution of outcomes
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="ruinLevel" className={labelClass}>Ruin Level ($)</label>
+            <input
+              type="number"
+              name="ruinLevel"
+              id="ruinLevel"
+              min="0"
               step="any"
               className={inputClass}
-              value={settings.riskPerTrade}
+              value={settings.ruinLevel ?? 0}
               onChange={handleChange}
-              required
             />
             <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Amount you're willing to lose on each trade
+              A path is counted as ruined once its equity falls to this level
+            </p>
+          </div>
+          
+          <div>
+            <label htmlFor="seed" className={labelClass}>Random Seed</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                name="seed"
+                id="seed"
+                min="0"
+                max={MAX_SEED}
+                step="1"
+                className={inputClass}
+                value={settings.seed ?? ''}
+                onChange={handleSeedChange}
+                placeholder="Random"
+              />
+              <button
+                type="button"
+                onClick={handleRollSeed}
+                className={`mt-1 ${iconButtonClass}`}
+                title="Generate a new seed"
+              >
+                <Shuffle size={20} />
+              </button>
+            </div>
+            <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              The same seed reproduces the exact same trade sequence. Leave empty for a random seed
             </p>
           </div>
         </div>
@@ -374,7 +1542,7 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
             <div>
               <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Total Trading Days</p>
               {isValidDateRange ? (
-                <p className="font-medium">~{tradingDays} days</p>
+                <p className="font-medium">{tradingDays} days</p>
               ) : (
                 <p className="font-medium text-red-500">Invalid date range</p>
               )}
@@ -382,29 +1550,92 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
             <div>
               <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Total Trades</p>
               {isValidDateRange ? (
-                <p className="font-medium">~{tradingDays * settings.tradesPerDay} trades</p>
+                <p className="font-medium">{projectedTrades} trades</p>
               ) : (
                 <p className="font-medium text-red-500">Invalid date range</p>
               )}
             </div>
             <div>
-              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Risk per Trade</p>
-              <p className="font-medium">${settings.riskPerTrade.toLocaleString()}</p>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {sizingModel === 'fixed-dollar' ? 'Risk per Trade' : 'Initial Risk per Trade'}
+              </p>
+              <p className="font-medium">${initialRisk.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {winDistribution === 'fixed' && !bootstrapEnabled ? 'Reward per Winning Trade' : 'Avg Reward per Winning Trade'}
+              </p>
+              <p className="font-medium">${(initialRisk * expectedWinR).toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
             </div>
             <div>
-              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Reward per Winning Trade</p>
-              <p className="font-medium">${(settings.riskPerTrade * settings.riskRewardRatio).toLocaleString()}</p>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Expectancy per Trade</p>
+              <p className={`font-medium ${edge.expectancyR < 0 ? 'text-red-500' : ''}`}>
+                {edge.expectancyR.toFixed(2)}R (${edge.expectancy.toLocaleString(undefined, { maximumFractionDigits: 2 })})
+              </p>
+            </div>
+            <div>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Breakeven Win Rate</p>
+              <p className="font-medium">
+                {edge.breakevenWinRate === null ? 'Not reachable' : `${edge.breakevenWinRate.toFixed(1)}%`}
+              </p>
+            </div>
+            <div>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Expected Profit</p>
+              <p className="font-medium">{isValidDateRange ? `$${Math.round(edge.expectedProfit).toLocaleString()}` : '—'}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Profit Std Dev</p>
+              <p className="font-medium">{isValidDateRange ? `$${Math.round(edge.profitStdDev).toLocaleString()}` : '—'}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Risk of Ruin (to ${(settings.ruinLevel ?? 0).toLocaleString()})
+              </p>
+              <p className="font-medium">{isValidDateRange ? `${edge.riskOfRuin.toFixed(1)}%` : '—'}</p>
+            </div>
+            <div>
+              <label htmlFor="riskWarningPercent" className={`block text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Warn When Risk per Trade Exceeds (% of equity)
+              </label>
+              <input
+                type="number"
+                name="riskWarningPercent"
+                id="riskWarningPercent"
+                min="0"
+                step="0.1"
+                className={inputClass}
+                value={settings.riskWarningPercent ?? DEFAULT_RISK_WARNING_PERCENT}
+                onChange={handleChange}
+              />
+              <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Currently {edge.riskPercent.toFixed(1)}%; 0 turns the warning off
+              </p>
             </div>
           </div>
+          {edge.warnings.map(warning => (
+            <div key={warning} className="mt-3 flex items-center text-sm text-amber-500">
+              <AlertTriangle size={16} className="mr-1 flex-shrink-0" />
+              {warning}
+            </div>
+          ))}
+          <p className={`mt-3 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Estimates assume independent trades at the initial risk, after commissions and slippage but before taxes and risk rules
+          </p>
         </div>
         
         <button
           type="submit"
           className={buttonClass}
-          disabled={!isValidDateRange}
+          disabled={!isValidDateRange || !outcomesValid}
         >
           Run Simulation
         </button>
+        {submitErrors.map(error => (
+          <div key={error} className={errorMessageClass}>
+            <AlertCircle size={16} className="mr-1" />
+            {error}
+          </div>
+        ))}
       </form>
       
       {/* Save Settings Modal */}
@@ -512,7 +1743,10 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
                           onClick={() => handleLoadSettings(config)}
                         >
                           <p className="font-medium">{config.name}</p>
-                          <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{config.date}</p>
+                          <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            {config.date}
+                            {config.settings.seed !== undefined && ` · Seed ${config.settings.seed}`}
+                          </p>
                         </div>
                         <button
                           onClick={(e) => {
@@ -548,6 +1782,27 @@ const TradingSimulationSettings: React.FC<TradingSimulationSettingsProps> = ({ o
           </div>
         </div>
       )}
+      
+      {/* R-Multiple Sample Import Modal */}
+      {showSampleImportModal && (
+        <TradeImportModal
+          settings={settings}
+          onSample={handleSampleImport}
+          onClose={() => setShowSampleImportModal(false)}
+        />
+      )}
+      
+      {/* Import Trade History Modal */}
+      {showImportModal && onImport && (
+        <TradeImportModal
+          settings={settings}
+          onImport={(history) => {
+            setShowImportModal(false);
+            onImport(history);
+          }}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,3 +1,68 @@
+export type PositionSizingModel = 'fixed-dollar' | 'percent-of-equity' | 'kelly' | 'step-up';
+
+export type CommissionModel = 'flat' | 'per-contract' | 'percent-of-notional';
+
+export type TaxSettlementFrequency = 'quarterly' | 'year-end';
+
+export type DailyLimitUnit = 'dollars' | 'r';
+
+export type DrawdownAction = 'halt' | 'pause';
+
+export type ChallengeMaxLossType = 'static' | 'trailing';
+
+export type WithdrawalModel = 'none' | 'fixed' | 'profit-percent' | 'high-water-mark';
+
+export type OutcomeDistribution = 'fixed' | 'normal' | 'lognormal' | 'custom';
+
+export type TradeResult = 'win' | 'loss' | 'breakeven';
+
+export type OutcomeSource = 'parameters' | 'bootstrap';
+
+export type BootstrapMode = 'trade' | 'day';
+
+export type TradingCalendar = 'weekdays' | 'nyse' | 'cme' | 'crypto';
+
+export type MarketRegime = 'favorable' | 'normal' | 'choppy';
+
+export type ChallengeOutcome = 'passed' | 'failed-max-loss' | 'failed-daily-loss' | 'failed-time-limit';
+
+export interface RMultipleBucket {
+    rMultiple: number; // Size of the outcome in R, positive for wins and losses alike
+    weight: number;    // Relative frequency
+}
+
+// What a bootstrap sample implies about the edge it was drawn from
+export interface RSampleSummary {
+    trades: number;
+    days: number;
+    winRate: number;      // % of decided trades (breakevens excluded) that won
+    expectancy: number;   // Average R per trade
+    payoffRatio: number;  // Average win over average loss, both in R
+    averageWinR: number;
+    averageLossR: number; // Positive
+    tradesPerDay: number;
+}
+
+// Closed-form estimates from the settings alone, shown before a simulation runs
+export interface EdgeAnalysis {
+    expectancyR: number;        // Average net R per trade, after commissions and slippage
+    expectancy: number;         // Expectancy in dollars at the initial risk
+    stdDevR: number;            // Standard deviation of one trade's net R
+    breakevenWinRate: number | null; // Win rate (%) at which expectancy is zero; null when no win rate can break even
+    expectedProfit: number;     // Over the projected trades, compounded for %-of-equity sizing
+    profitStdDev: number;
+    riskOfRuin: number;         // % chance of touching the ruin level within the projected trades
+    riskPercent: number;        // Initial risk as % of starting equity
+    warnings: string[];
+}
+
+export interface RegimeSettings {
+    regime: MarketRegime;
+    winRate: number;
+    riskRewardRatio: number;
+    transitions: Record<MarketRegime, number>; // % chance of each regime on the next trading day
+}
+
 export interface SimulationSettings {
     // Base properties
     initialCapital: number;
@@ -23,6 +88,75 @@ export interface SimulationSettings {
     riskPerTrade: number;
     startingEquity: number;
     darkMode?: boolean;
+    tradingCalendar?: TradingCalendar; // Defaults to every weekday
+    blackoutDates?: string[];          // YYYY-MM-DD dates with no trading on any calendar
+    seed?: number; // Seed for the random number generator; the same seed reproduces the same run
+    
+    // Position sizing
+    positionSizingModel?: PositionSizingModel; // Defaults to a fixed dollar riskPerTrade
+    kellyFraction?: number;  // Fraction of full Kelly to risk, e.g. 0.5 for half Kelly
+    stepUpPercent?: number;  // Equity growth (%) above the sizing base that triggers a step-up
+    riskWarningPercent?: number; // Risk per trade (% of equity) above which the preview warns; 0 turns it off
+    
+    // Trade outcomes - wins average riskRewardRatio R and losses 1R unless a custom histogram is used
+    winDistribution?: OutcomeDistribution;
+    winStdDevR?: number;
+    winHistogram?: RMultipleBucket[];
+    lossDistribution?: OutcomeDistribution;
+    lossStdDevR?: number;
+    lossHistogram?: RMultipleBucket[];
+    breakevenRate?: number;      // % of trades that scratch at 0R; winRate applies to the rest
+    outsizedLossRate?: number;   // % of losses where the stop slips
+    outsizedLossR?: number;      // Size of a slipped-stop loss, in R
+    
+    // Bootstrap - resample historical R-multiples instead of using the win rate and outcome sizes above
+    outcomeSource?: OutcomeSource;
+    bootstrapMode?: BootstrapMode;   // Resample single trades, or whole days to keep their clustering
+    bootstrapSample?: number[][];    // Historical R-multiples, one array per trading day
+    
+    // Market regimes - a Markov chain switches the win rate and R:R from day to day
+    regimeModel?: boolean;
+    regimes?: RegimeSettings[];
+    
+    // Trading costs - feesPerTrade is the flat fee, or the fee per contract for the per-contract model
+    commissionModel?: CommissionModel;
+    contractsPerTrade?: number;
+    commissionPercent?: number;   // % of notional value charged per round trip
+    stopDistancePercent?: number; // Stop distance as % of entry price, used to derive notional value
+    averageSlippageR?: number;    // Average adverse slippage per trade, in R
+    
+    // Taxes - taxRate (%) applies to net realized gains
+    taxSettlement?: TaxSettlementFrequency;
+    payTaxesFromAccount?: boolean; // Deduct tax payments from trading equity
+    
+    // Risk rules - 0 or unset disables a rule; maxDrawdownPercent is measured from peak equity
+    dailyLossLimit?: number;
+    dailyProfitTarget?: number;
+    dailyLimitUnit?: DailyLimitUnit; // Unit of the daily loss limit and profit target
+    maxConsecutiveLosses?: number;   // Stop for the day after this many losses in a row
+    drawdownAction?: DrawdownAction;
+    drawdownPauseDays?: number;      // Trading days to sit out when drawdownAction is 'pause'
+    
+    // Cash flows at each month end - annualContribution is deposited in twelve equal installments
+    withdrawalModel?: WithdrawalModel;
+    monthlyWithdrawal?: number;       // Dollars per month for the 'fixed' model
+    withdrawalProfitPercent?: number; // % of the month's trading profit for the 'profit-percent' model
+    withdrawalHighWaterMark?: number; // Balance the 'high-water-mark' model keeps, plus deposits; 0 = startingEquity
+    minimumBalance?: number;          // Withdrawals never take equity below this
+    
+    // Prop firm evaluation challenge - dollar amounts relative to startingEquity, 0 disables a limit
+    challengeMode?: boolean;
+    challengeProfitTarget?: number;
+    challengeMaxLoss?: number;
+    challengeMaxLossType?: ChallengeMaxLossType;
+    challengeDailyLossLimit?: number;
+    challengeMinTradingDays?: number;
+    challengeTimeLimitDays?: number; // Trading days; 0 = until the end date
+    challengeAttempts?: number;      // Repeated attempts used for the pass probability
+    
+    // Monte Carlo batch mode
+    monteCarloPaths?: number; // Number of paths to run; 1 or less runs a single path
+    ruinLevel?: number;       // Equity level ($) that counts as ruin
 }
 
 export interface EquityPoint {
@@ -30,6 +164,24 @@ export interface EquityPoint {
     equity: number;
     month: string;
     week: string;
+    riskPerTrade?: number; // Amount risked on the last trade of the day
+    regime?: MarketRegime;   // Set when the regime model is on
+    preTaxEquity?: number;   // Set when taxes are modeled
+    afterTaxEquity?: number; // Set when taxes are modeled
+    netCashFlow?: number;    // Deposits less withdrawals to date; set when cash flows are modeled
+}
+
+export interface TradeRecord {
+    sequence: number; // 1-based across the whole run
+    date: string;
+    month: string;
+    week: string;
+    index: number;    // 1-based position within the day
+    result: TradeResult;
+    rMultiple: number; // Net of commissions and slippage
+    risk: number;
+    pnl: number;
+    equity: number;    // Equity after the trade
 }
 
 export interface DateInfo {
@@ -37,6 +189,7 @@ export interface DateInfo {
     month: string;
     week: string;
     dateObj: Date;
+    sessionLength: number; // 1 for a full session, less for an early close
 }
 
 export interface MonthlyStats {
@@ -45,6 +198,7 @@ export interface MonthlyStats {
     losses: number;
     profitLoss: number;
     trades: number;
+    fees: number; // Commissions and slippage paid
     winRate?: string;
 }
 
@@ -54,9 +208,194 @@ export interface WeeklyStats {
     losses: number;
     profitLoss: number;
     trades: number;
+    fees: number; // Commissions and slippage paid
     winRate?: string;
 }
 
+// Every simulated trading day, including days a risk rule kept flat
+export interface DailyStats {
+    date: string;      // Display date, as on the equity curve
+    dateKey: string;   // Local YYYY-MM-DD
+    dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+    wins: number;
+    losses: number;
+    profitLoss: number;
+    trades: number;
+    fees: number; // Commissions and slippage paid
+}
+
+export type BreakdownPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+// Results over one calendar quarter or year
+export interface PeriodStats {
+    period: string; // "Q1 2027" or "2027"
+    startEquity: number;
+    endEquity: number;
+    wins: number;
+    losses: number;
+    profitLoss: number;
+    trades: number;
+    fees: number;                // Commissions and slippage paid
+    returnPercent: number;       // Equity change over the period, % of the starting equity
+    winRate: number;             // % of decided trades
+    maxDrawdown: number;         // Deepest peak-to-trough drop within the period, %
+    yearOverYearGrowth: number | null; // P&L change vs the same period a year earlier, %; null without one
+}
+
+// One weekday across the whole run
+export interface DayOfWeekStats {
+    dayOfWeek: number;
+    label: string;
+    days: number; // Trading days that fell on this weekday
+    trades: number;
+    wins: number;
+    losses: number;
+    profitLoss: number;
+    averagePnl: number; // Per trading day
+    winRate: number;    // % of decided trades
+    worstDay: DailyStats | null;
+}
+
+export interface YearlyTaxSummary {
+    year: string;
+    netGain: number;
+    carryForwardUsed: number;
+    taxableGain: number;
+    taxPaid: number;
+    carryForwardRemaining: number;
+}
+
+export interface RiskRuleStats {
+    dailyLossLimitHits: number;
+    consecutiveLossStops: number;
+    profitTargetHits: number;
+    drawdownStops: number;  // Times the drawdown rule halted or paused trading
+    daysSkipped: number;    // Whole trading days spent halted or paused
+    tradesSkipped: number;
+    haltedOn: string | null;
+}
+
+// Deposits and withdrawals made at one month end
+export interface CashFlowRecord {
+    date: string;
+    month: string;
+    deposit: number;
+    withdrawal: number;
+    blocked: boolean; // The minimum balance stopped a withdrawal that was due
+    equityAfter: number;
+    cumulativeWithdrawals: number;
+}
+
+export interface CashFlowSummary {
+    totalDeposits: number;
+    totalWithdrawals: number;
+    netCashFlow: number;
+    blockedWithdrawals: number;  // Month ends where the minimum balance stopped a withdrawal
+    timeWeightedReturn: number;  // %, chaining daily returns with the cash flows taken out
+    records: CashFlowRecord[];
+}
+
+export interface RegimeSummary {
+    regime: MarketRegime;
+    days: number;
+    trades: number;
+    wins: number;
+    losses: number;
+    profitLoss: number;
+}
+
+export interface RegimeComparisonMetrics {
+    maxWinStreak: number;
+    maxLossStreak: number;
+    maxDrawdown: number;
+    finalEquity: number;
+}
+
+export interface RegimeComparison {
+    paths: number;
+    seed: number;
+    baselineWinRate: number;         // Long-run average win rate of the regime model
+    baselineRiskRewardRatio: number; // Long-run average R:R of its winning trades
+    regime: RegimeComparisonMetrics;   // Averages across paths with the regime model
+    baseline: RegimeComparisonMetrics; // Averages across paths with independent trades
+}
+
+export interface ChallengeResult {
+    outcome: ChallengeOutcome;
+    passed: boolean;
+    tradingDays: number;
+    endDate: string;
+    endEquity: number;
+}
+
+export interface ChallengeBatchResult {
+    attempts: number;
+    seed: number;
+    passed: number;
+    passProbability: number; // Percentage of attempts that passed
+    averageDaysToPass: number;
+    averageDaysToFail: number;
+    outcomeCounts: Record<ChallengeOutcome, number>;
+}
+
+export interface LosingStreak {
+    length: number;
+    startDate: string;
+    endDate: string;
+    pnl: number;        // Net P&L of the streak's trades, negative
+    rMultiple: number;  // Net R of the streak's trades, negative
+}
+
+// Every completed run of consecutive wins or losses; breakevens end both
+export interface StreakStats {
+    winStreakCounts: number[];  // winStreakCounts[n] = win streaks of exactly n trades; index 0 is unused
+    lossStreakCounts: number[];
+    worstLosingStreaks: LosingStreak[]; // Costliest in dollars first
+}
+
+// One stretch below a previous equity peak, from the peak until equity gets back to it
+export interface DrawdownEpisode {
+    peakDate: string;
+    troughDate: string;
+    recoveryDate: string | null;   // null when equity was still below the peak at the end of the run
+    peakEquity: number;
+    troughEquity: number;
+    depthPercent: number;
+    depthAmount: number;
+    durationDays: number;          // Trading days from the peak to recovery, or to the end of the run
+    daysToTrough: number;
+    daysToRecovery: number | null; // Trading days from the trough back to the peak
+}
+
+export interface DrawdownSummary {
+    episodes: number;
+    recovered: number;
+    averageDepthPercent: number;
+    averageDurationDays: number;
+    averageRecoveryDays: number | null; // Recovered episodes only
+    medianRecoveryDays: number | null;
+    longestRecoveryDays: number | null;
+    longestDurationDays: number;
+    currentDrawdownPercent: number;     // Below the peak at the end of the run
+}
+
+// Standard performance metrics; ratios are null when they can't be computed (no losses, no drawdown, too few days)
+export interface PerformanceMetrics {
+    profitFactor: number | null;  // Gross profit of winning trades over gross loss of losing trades, net of costs
+    expectancy: number;           // Average net P&L per trade
+    expectancyR: number;          // Average net R per trade
+    sqn: number | null;           // System Quality Number, trades capped at 100
+    sharpeRatio: number | null;   // Annualized from daily returns, no risk-free rate
+    sortinoRatio: number | null;
+    calmarRatio: number | null;   // CAGR over max drawdown
+    cagr: number | null;          // Compound annual growth rate, %
+    recoveryFactor: number | null; // Net profit over the largest drawdown in dollars
+    ulcerIndex: number;
+    profitableDaysPercent: number;
+    profitableWeeksPercent: number;
+    profitableMonthsPercent: number;
+}
+
 export interface SimulationStats {
     winRate: number;
     avgRPerDay: number;
@@ -64,16 +403,165 @@ export interface SimulationStats {
     avgTradesPerDay: number;
     initialEquity: number;
     finalEquity: number;
-    totalProfit: number;
+    totalProfit: number; // Trading P&L; deposits and withdrawals are left out
     maxWinStreak: number;
     maxLossStreak: number;
     maxDrawdown: number;
     maxDrawdownPeriod: string;
+    drawdownEpisodes: DrawdownEpisode[];
     maxWinStreakPeriod: string;
     maxLossStreakPeriod: string;
+    streaks: StreakStats;
     equityCurve: EquityPoint[];
+    trades: TradeRecord[]; // Empty for batch paths, which skip the ledger
     monthlyBreakdown: MonthlyStats[];
     weeklyBreakdown: WeeklyStats[];
+    dailyBreakdown: DailyStats[];
+    quarterlyBreakdown: PeriodStats[];
+    yearlyBreakdown: PeriodStats[];
     totalTrades: number;
     riskRewardRatio: number;
-}
\ No newline at end of file
+    averageRiskPerTrade: number;
+    grossProfit: number; // Profit before commissions and slippage
+    totalFees: number;
+    totalSlippage: number;
+    feesPercentOfGross: number; // Commissions as % of gross profit; 0 when gross profit is not positive
+    totalTaxPaid: number;
+    afterTaxProfit: number;
+    taxByYear: YearlyTaxSummary[];
+    riskRules: RiskRuleStats;
+    cashFlows: CashFlowSummary;
+    averageWin: number;   // Realized net P&L of the average winning trade
+    averageLoss: number;  // Realized net loss of the average losing trade, as a positive amount
+    averageWinR: number;
+    averageLossR: number; // Positive amount in R
+    breakevenTrades: number;
+    outsizedLosses: number;
+    rMultipleHistogram: HistogramBin[]; // Realized net R-multiples of every trade
+    regimes: RegimeSummary[]; // Empty unless the regime model is on
+    performance: PerformanceMetrics;
+    challenge: ChallengeResult | null; // Set in challenge mode
+}
+
+export interface PercentileCurvePoint {
+    date: string;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+    outerBand: [number, number]; // 5th to 95th percentile
+    innerBand: [number, number]; // 25th to 75th percentile
+}
+
+export interface HistogramBin {
+    label: string;
+    rangeStart: number;
+    rangeEnd: number;
+    count: number;
+}
+
+export interface MetricConfidenceInterval {
+    key: string;    // SimulationStats field, or "performance.<metric>" / "cashFlows.<field>" for nested ones
+    label: string;
+    format: 'currency' | 'percent' | 'number' | 'r';
+    mean: number | null; // null when no path had a value
+    p5: number | null;
+    p50: number | null;
+    p95: number | null;
+    paths: number;  // Paths with a finite value; paths where a ratio is undefined are left out
+}
+
+export interface MonteCarloResult {
+    paths: number;
+    seed: number;
+    ruinLevel: number;
+    ruinedPaths: number;
+    riskOfRuin: number; // Percentage of paths that touched the ruin level
+    profitablePaths: number;
+    percentileCurve: PercentileCurvePoint[];
+    finalEquityHistogram: HistogramBin[];
+    confidenceIntervals: MetricConfidenceInterval[];
+}
+
+export interface SimulationRunResult {
+    stats: SimulationStats;
+    monteCarlo: MonteCarloResult | null;
+    challengeBatch: ChallengeBatchResult | null;
+    regimeComparison: RegimeComparison | null;
+}
+
+export interface SimulationProgress {
+    phase: string;
+    completed: number;
+    total: number;
+}
+
+// A named set of settings to run side by side with others
+export interface Scenario {
+    name: string;
+    settings: SimulationSettings;
+}
+
+export interface ScenarioResult extends Scenario {
+    stats: SimulationStats;
+}
+
+// Numeric settings a parameter sweep can vary
+export type SweepParameter =
+    | 'winRate'
+    | 'riskRewardRatio'
+    | 'riskPerTrade'
+    | 'tradesPerDay'
+    | 'positionSizingPercent'
+    | 'kellyFraction'
+    | 'breakevenRate'
+    | 'feesPerTrade'
+    | 'averageSlippageR';
+
+export type SweepMetric = 'medianFinalEquity' | 'medianMaxDrawdown' | 'riskOfRuin' | 'expectancy';
+
+export interface SweepAxis {
+    parameter: SweepParameter;
+    from: number;
+    to: number;
+    step: number;
+}
+
+export interface SweepRequest {
+    xAxis: SweepAxis;
+    yAxis: SweepAxis;
+    pathsPerCell: number;
+}
+
+export interface SweepCell extends Record<SweepMetric, number> {
+    x: number;
+    y: number;
+}
+
+export interface SweepResult extends SweepRequest {
+    seed: number; // Every cell runs the same seeded paths
+    ruinLevel: number;
+    xValues: number[];
+    yValues: number[];
+    cells: SweepCell[]; // Row by row: every x value for the first y value, then the next
+}
+
+// Settings saved in localStorage from the settings form
+export interface SavedConfig {
+    name: string;
+    settings: SimulationSettings;
+    date: string;
+}
+
+export type SimulationWorkerRequest =
+    | { type: 'run'; id: number; params: SimulationSettings }
+    | { type: 'compare'; id: number; scenarios: Scenario[] }
+    | { type: 'sweep'; id: number; params: SimulationSettings; sweep: SweepRequest };
+
+export type SimulationWorkerResponse =
+    | { type: 'progress'; id: number; progress: SimulationProgress }
+    | { type: 'result'; id: number; result: SimulationRunResult }
+    | { type: 'comparison'; id: number; results: ScenarioResult[] }
+    | { type: 'sweep'; id: number; result: SweepResult }
+    | { type: 'error'; id: number; message: string };
@@ -0,0 +1,114 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { SimulationSettings, SimulationRunResult, SimulationProgress, SimulationWorkerRequest, SimulationWorkerResponse, Scenario, ScenarioResult, SweepRequest, SweepResult } from './types';
+import { runSimulationJob } from './simulation-job';
+import { runScenarioComparison } from './scenario-comparison';
+import { runParameterSweep } from './parameter-sweep';
+
+// A worker request before the runner gives it an id
+type RunnerRequest = SimulationWorkerRequest extends infer Request
+  ? Request extends SimulationWorkerRequest ? Omit<Request, 'id'> : never
+  : never;
+
+interface PendingRun {
+  id: number;
+  resolve: (response: SimulationWorkerResponse | null) => void;
+}
+
+// Runs simulations in a Web Worker so long runs don't freeze the page.
+// run(), compare() and sweep() resolve with the results, or with null when the run is cancelled.
+export const useSimulationRunner = () => {
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingRun | null>(null);
+  const nextIdRef = useRef<number>(0);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+    setProgress(null);
+  };
+
+  // Cancel the current run - terminating the worker is the only way to interrupt its loop
+  const cancel = useCallback(() => {
+    const pending = pendingRef.current;
+    stopWorker();
+    pending?.resolve(null);
+  }, []);
+
+  // Send one request to a fresh worker; resolves with its final message
+  const start = useCallback((request: RunnerRequest): Promise<SimulationWorkerResponse | null> => {
+    // Only one run at a time
+    cancel();
+
+    return new Promise((resolve, reject) => {
+      const id = ++nextIdRef.current;
+      const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url));
+      workerRef.current = worker;
+      pendingRef.current = { id, resolve };
+      setProgress({ phase: 'Starting simulation', completed: 0, total: 1 });
+
+      worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+        const message = event.data;
+        if (pendingRef.current?.id !== message.id) return;
+
+        switch (message.type) {
+          case 'progress':
+            setProgress(message.progress);
+            break;
+          case 'error':
+            stopWorker();
+            reject(new Error(message.message));
+            break;
+          default:
+            stopWorker();
+            resolve(message);
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        if (pendingRef.current?.id !== id) return;
+        stopWorker();
+        reject(new Error(event.message || 'Simulation worker failed'));
+      };
+
+      worker.postMessage({ ...request, id });
+    });
+  }, [cancel]);
+
+  const run = useCallback(async (params: SimulationSettings): Promise<SimulationRunResult | null> => {
+    // Fall back to running on the main thread where workers are unavailable
+    if (typeof Worker === 'undefined') return runSimulationJob(params);
+
+    const response = await start({ type: 'run', params });
+    return response?.type === 'result' ? response.result : null;
+  }, [start]);
+
+  const compare = useCallback(async (scenarios: Scenario[]): Promise<ScenarioResult[] | null> => {
+    if (typeof Worker === 'undefined') return runScenarioComparison(scenarios);
+
+    const response = await start({ type: 'compare', scenarios });
+    return response?.type === 'comparison' ? response.results : null;
+  }, [start]);
+
+  const sweep = useCallback(async (params: SimulationSettings, request: SweepRequest): Promise<SweepResult | null> => {
+    if (typeof Worker === 'undefined') return runParameterSweep(params, request);
+
+    const response = await start({ type: 'sweep', params, sweep: request });
+    return response?.type === 'sweep' ? response.result : null;
+  }, [start]);
+
+  // Don't leave a worker running after the page goes away, and settle its run like a cancel
+  useEffect(() => {
+    return () => {
+      const pending = pendingRef.current;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pendingRef.current = null;
+      pending?.resolve(null);
+    };
+  }, []);
+
+  return { run, compare, sweep, cancel, progress, running: progress !== null };
+};